@@ -1,15 +1,42 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { 
     StoryConfig, Project, Language, TRANSLATIONS, 
     MediaSettings, VoiceConfig, ImageStyleConfig, STYLE_OPTIONS,
-    TEMPLATES, Template
+    TEMPLATES, Template, ProviderId, ModelSettings, DEFAULT_MODELS, IMAGE_MODELS, ModelModality, NARRATOR,
+    AudioExportSettings, SubtitleSettings, Scene, StoryOutput, QueueSettings, ImageTake, ImageResolution, AspectRatio, SceneReframe, ConsistencyIssue
 } from './types';
 import { StepCategory } from './components/StepCategory';
 import { StepConfig } from './components/StepConfig';
 import { StepLoading } from './components/StepLoading';
 import { StepResult } from './components/StepResult';
-import { generateStory, generateSpeech, generateImage } from './services/geminiService';
-import { Sparkles, Globe, Download, Save, Upload, Image as ImageIcon, Video, Music, Settings, X, Mic, Palette, Sun, User, LayoutTemplate, AlertCircle, RefreshCw, Archive, Trash2, FolderOpen, Info, Camera, Menu, FileJson, ChevronDown } from 'lucide-react';
+import { FullNarrationExport } from './components/FullNarrationExport';
+import { VideoRenderPanel } from './components/VideoRenderPanel';
+import { SubtitlePanel } from './components/SubtitlePanel';
+import { ArchiveThumbnail } from './components/ArchiveThumbnail';
+import { RevisionHistory } from './components/RevisionHistory';
+import { StaleBadge } from './components/StaleBadge';
+import { JobQueuePanel } from './components/JobQueuePanel';
+import { MediaCachePanel } from './components/MediaCachePanel';
+import { TakeGallery } from './components/TakeGallery';
+import { ImageEditor } from './components/ImageEditor';
+import { ReframeEditor, ReframeMethod } from './components/ReframeEditor';
+import { ConsistencyReport } from './components/ConsistencyReport';
+import { generateStory, generateChapteredStory, generateScene, generateSceneAudio, generateImage, editImage, outpaintImage, locateSubjects, checkCharacterConsistency, correctiveNote, supportsImageSize, RequestOptions } from './services/geminiService';
+import { FocusPoint, cropToAspect, cropCutsSubjects, focusOfSubjects, imageSize } from './services/reframe';
+import { upscaleImage, imageLongEdge, RESOLUTION_LONG_EDGE } from './services/imageUpscale';
+import { PROVIDERS, getActiveProvider, setActiveProvider } from './services/aiProvider';
+import { isAbortError } from './services/abort';
+import { enqueueJob, retryJob, dismissJob, cancelJobs, subscribeJobs, configureQueue, JobInfo, JobKind, DEFAULT_QUEUE_SETTINGS, DEFAULT_REQUESTS_PER_MINUTE } from './services/jobQueue';
+import { decodeWav } from './services/audioService';
+import { migrateProject, CURRENT_SCHEMA_VERSION } from './services/projectSchema';
+import { exportProjectBundle, importProjectBundle } from './services/projectBundle';
+import { SceneTextEdit, audioSourceOf, imageSourceOf, isAudioStale, isImageStale, renumberScenes, createTakeId, addTake, selectTake } from './services/sceneState';
+import { encodeAudio, AUDIO_EXTENSIONS } from './services/audioEncoder';
+import {
+    saveProject, loadProject, listProjects, deleteProject, migrateLegacyArchive, collectGarbage, ProjectSummary,
+    saveSession, loadSession, clearSession, saveRevision, RevisionReason, SavedSession
+} from './services/storageService';
+import { Sparkles, Globe, Download, Save, Upload, Image as ImageIcon, Video, Music, Settings, X, Mic, Palette, Sun, User, LayoutTemplate, AlertCircle, RefreshCw, Archive, Trash2, FolderOpen, Info, Camera, Menu, FileJson, ChevronDown, Cpu, RotateCcw, History, Package, Square, Brush, Maximize2, Crop, ScanFace } from 'lucide-react';
 
 // Factory functions to ensure fresh state
 const getInitialConfig = (): StoryConfig => ({
@@ -43,7 +70,35 @@ const getInitialMediaSettings = (): MediaSettings => ({
     imageModel: 'gemini-3-pro-image-preview',
 });
 
-const ARCHIVE_KEY = 'story_studio_projects';
+const getInitialModels = (): ModelSettings => ({
+    text: [...DEFAULT_MODELS.text],
+    speech: [...DEFAULT_MODELS.speech],
+    image: [...DEFAULT_MODELS.image],
+    vision: [...DEFAULT_MODELS.vision],
+});
+
+const getInitialAudioExport = (): AudioExportSettings => ({
+    format: 'mp3',
+    bitrate: 96,
+    gapSeconds: 0.8,
+    fadeInSeconds: 0,
+    fadeOutSeconds: 0.2,
+});
+
+// 32 characters keeps two-line captions readable on 9:16 video
+const getInitialSubtitles = (): SubtitleSettings => ({
+    burnIn: false,
+    maxCharsPerLine: 32,
+    maxLines: 2,
+    fontSize: 'medium',
+    position: 'bottom',
+    color: '#FFFFFF',
+    background: 'box',
+});
+
+
+const AUTOSAVE_DELAY_MS = 1500;
+const MAX_SCENE_UNDO = 50;
 
 const App: React.FC = () => {
   // State
@@ -51,45 +106,168 @@ const App: React.FC = () => {
   const [showSettings, setShowSettings] = useState(false);
   const [showTemplates, setShowTemplates] = useState(false);
   const [showArchive, setShowArchive] = useState(false);
-  const [savedProjects, setSavedProjects] = useState<Project[]>([]);
+  const [showRevisions, setShowRevisions] = useState(false);
+  const [savedProjects, setSavedProjects] = useState<ProjectSummary[]>([]);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   
   const [project, setProject] = useState<Project>({
       id: Date.now().toString(),
+      schemaVersion: CURRENT_SCHEMA_VERSION,
       createdAt: Date.now(),
       config: getInitialConfig(),
       output: null,
       mediaSettings: getInitialMediaSettings(),
       imageStyle: getInitialImageStyle(),
       voiceConfig: getInitialVoice(),
-      apiKey: ''
+      apiKey: '',
+      provider: getActiveProvider(),
+      models: getInitialModels(),
+      audioExport: getInitialAudioExport(),
+      subtitles: getInitialSubtitles()
   });
   
   const [currentTab, setCurrentTab] = useState<'script' | 'audio' | 'visuals'>('script');
   const [loading, setLoading] = useState(false);
   
-  // Specific loading states to prevent UI overlap
-  const [audioLoadingIndex, setAudioLoadingIndex] = useState<number | null>(null);
-  const [imageLoadingIndex, setImageLoadingIndex] = useState<number | null>(null);
+  // Media queue status, for per-scene spinners and the failed-jobs panel
+  const [jobs, setJobs] = useState<JobInfo[]>([]);
+  const openProjectId = useRef(project.id);
   
   const [generatingAllAudio, setGeneratingAllAudio] = useState(false);
   const [generatingAllImages, setGeneratingAllImages] = useState(false);
+  const [regeneratingStale, setRegeneratingStale] = useState(false);
+  const [checkingAll, setCheckingAll] = useState(false);
+  const [sceneUndo, setSceneUndo] = useState<{ sceneId: string; previous: SceneTextEdit }[]>([]);
+  // Script streaming in: shown live, and kept as the script if the user stops generation
+  const [liveOutput, setLiveOutput] = useState<StoryOutput | null>(null);
+  // Cancellation: every generation registers its controller. Switching projects aborts them all and
+  // bumps the epoch, so anything that still resolves afterwards is recognised as stale and dropped.
+  const inFlight = useRef(new Set<AbortController>());
+  const generationEpoch = useRef(0);
+  const scriptAbort = useRef<AbortController | null>(null);
+  const bulkAbort = useRef<AbortController | null>(null); // The running generate-all / regenerate-stale
+  const [rewritingId, setRewritingId] = useState<string | null>(null); // Scene being rewritten
+  const [insertingAt, setInsertingAt] = useState<number | null>(null); // Position a new scene is being written for
+  const [editingImageOf, setEditingImageOf] = useState<string | null>(null); // Scene id open in the image editor
+  const [upscalingId, setUpscalingId] = useState<string | null>(null); // Scene whose image is being upscaled
+  const [fullSizeTakeIds, setFullSizeTakeIds] = useState<Set<string>>(new Set()); // Takes found to need no upscale
+  const [reframingOf, setReframingOf] = useState<string | null>(null); // Scene id open in the reframe tool
+  const [reframeStatus, setReframeStatus] = useState<string | null>(null);
   
   const [error, setError] = useState<string | null>(null);
 
   const t = TRANSLATIONS[lang];
 
+  const requestOptions: RequestOptions = { apiKey: project.apiKey, models: project.models, bypassCache: project.bypassCache };
+
+  useEffect(() => subscribeJobs(setJobs), []);
+  useEffect(() => configureQueue({ ...DEFAULT_QUEUE_SETTINGS, ...project.queue }), [project.queue]);
+  useEffect(() => { openProjectId.current = project.id; }, [project.id]);
+
+  const projectJobs = jobs.filter(j => j.projectId === project.id);
+  const activeJobs = projectJobs.filter(j => j.status === 'queued' || j.status === 'running');
+  const isSceneBusy = (kind: JobKind, sceneId: string) => activeJobs.some(j => j.kind === kind && j.sceneId === sceneId);
+
+  const startGeneration = () => {
+      const controller = new AbortController();
+      const epoch = generationEpoch.current;
+      inFlight.current.add(controller);
+      return {
+          controller,
+          options: { ...requestOptions, signal: controller.signal },
+          isCurrent: () => epoch === generationEpoch.current,
+          finish: () => { inFlight.current.delete(controller); },
+      };
+  };
+
+  const cancelAllGeneration = () => {
+      inFlight.current.forEach(controller => controller.abort());
+      inFlight.current.clear();
+      generationEpoch.current++;
+      cancelJobs();
+  };
+
+  const stopBulkGeneration = () => bulkAbort.current?.abort();
+
+  // Keep the service layer pointed at the project's backend
+  useEffect(() => {
+    if (project.provider) setActiveProvider(project.provider);
+  }, [project.provider]);
+
   // --- Archive Logic ---
+  const refreshArchive = () => listProjects().then(setSavedProjects);
+
   useEffect(() => {
-    const saved = localStorage.getItem(ARCHIVE_KEY);
-    if (saved) {
-      try {
-        setSavedProjects(JSON.parse(saved));
-      } catch (e) { console.error("Failed to load archive", e); }
-    }
+    // Older versions kept the whole archive in localStorage; move it over on first run
+    migrateLegacyArchive()
+      .then(({ failed, unreadable, backupKey }) => {
+          if (unreadable) setError(`The old project archive could not be read and was not migrated. Its data was kept in localStorage under "${backupKey}".`);
+          else if (failed.length) setError(`Some archived projects could not be migrated. They were kept in localStorage under "${backupKey}":\n${failed.map(f => `• ${f.title}: ${f.error}`).join('\n')}`);
+      })
+      .catch(e => console.error("Failed to migrate archive", e))
+      .then(refreshArchive)
+      .catch(e => console.error("Failed to load archive", e))
+      .then(collectGarbage)
+      .catch(e => console.error("Failed to clean up media", e));
   }, []);
 
-  const saveToArchive = () => {
+  // --- Autosave & Revisions ---
+  // Autosave stays off until any previous session has been restored or discarded
+  const [pendingSession, setPendingSession] = useState<SavedSession | null>(null);
+  const [autosaveReady, setAutosaveReady] = useState(false);
+
+  useEffect(() => {
+    loadSession()
+      .then(session => {
+          if (session && (session.project.output || session.project.config.premise)) setPendingSession(session);
+          else setAutosaveReady(true);
+      })
+      .catch(e => {
+          console.error("Failed to read last session", e);
+          setAutosaveReady(true);
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!autosaveReady) return;
+    const timer = setTimeout(() => {
+        saveSession(project).catch(e => console.error("Autosave failed", e));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [project, autosaveReady]);
+
+  const resolvePendingSession = (restore: boolean) => {
+      try {
+          if (restore && pendingSession) openProject(pendingSession.project);
+          else clearSession().catch(e => console.error("Failed to clear last session", e));
+      } catch (err: any) {
+          setError(`Could not restore session: ${err.message || err}`);
+      }
+      setPendingSession(null);
+      setAutosaveReady(true);
+  };
+
+  // Snapshot taken before steps that overwrite the script or media in bulk
+  const snapshotRevision = async (reason: RevisionReason) => {
+      if (!project.output) return;
+      try {
+          await saveRevision(project, reason);
+      } catch (e) {
+          console.error("Failed to save revision", e);
+      }
+  };
+
+  const handleRestoreRevision = async (revision: Project) => {
+      await snapshotRevision('restore');
+      try {
+          openProject(revision);
+          setShowRevisions(false);
+      } catch (err: any) {
+          setError(`Could not restore revision: ${err.message || err}`);
+      }
+  };
+
+  const saveToArchive = async () => {
      if (!project.output) {
          setError("Cannot save an empty project. Generate a story first.");
          return;
@@ -101,64 +279,81 @@ const App: React.FC = () => {
          lastSaved: Date.now() 
      };
      
-     // Update if exists, otherwise add new
-     const existingIndex = savedProjects.findIndex(p => p.id === project.id);
-     let newProjects = [...savedProjects];
-     
-     if (existingIndex >= 0) {
-         newProjects[existingIndex] = projectToSave;
-     } else {
-         newProjects = [projectToSave, ...savedProjects];
-     }
-     
-     // Limit to 50
-     if (newProjects.length > 50) {
-         newProjects = newProjects.slice(0, 50);
+     try {
+         await saveProject(projectToSave);
+         await refreshArchive();
+         alert("Project saved to Archive!");
+     } catch (err: any) {
+         setError(`Could not save project: ${err.message || err}`);
      }
-     
-     setSavedProjects(newProjects);
-     localStorage.setItem(ARCHIVE_KEY, JSON.stringify(newProjects));
-     alert("Project saved to Archive!");
   };
 
-  const loadFromArchive = (saved: Project) => {
-      setProject({
+  // Shared by archive, file import, session restore and revisions. Throws if the data is unusable.
+  // Returns the project as opened, after migration and defaults. `apiKey` fills in a missing key
+  const openProject = (data: unknown, apiKey?: string): Project => {
+      const saved = migrateProject(data);
+      cancelAllGeneration();
+      const opened: Project = {
           ...saved,
-          // Ensure potentially missing fields from older versions are present
+          apiKey: saved.apiKey || apiKey,
+          // Sections the schema leaves optional get the current defaults
           mediaSettings: { ...getInitialMediaSettings(), ...saved.mediaSettings },
           imageStyle: { ...getInitialImageStyle(), ...saved.imageStyle },
           voiceConfig: { ...getInitialVoice(), ...saved.voiceConfig },
-          config: { ...getInitialConfig(), ...saved.config, characters: saved.config.characters || [] }
-      });
+          models: { ...getInitialModels(), ...saved.models },
+          audioExport: { ...getInitialAudioExport(), ...saved.audioExport },
+          subtitles: { ...getInitialSubtitles(), ...saved.subtitles },
+          config: { ...getInitialConfig(), ...saved.config }
+      };
+      setProject(opened);
+      setSceneUndo([]);
       setShowArchive(false);
       setCurrentTab('script');
+      return opened;
   };
 
-  const deleteFromArchive = (id: string, e: React.MouseEvent) => {
+  const openFromArchive = async (id: string) => {
+      try {
+          openProject(await loadProject(id));
+      } catch (err: any) {
+          setError(`Could not open project: ${err.message || err}`);
+      }
+  };
+
+  const deleteFromArchive = async (id: string, e: React.MouseEvent) => {
       e.stopPropagation();
       if (!window.confirm("Delete this project?")) return;
-      const newProjects = savedProjects.filter(p => p.id !== id);
-      setSavedProjects(newProjects);
-      localStorage.setItem(ARCHIVE_KEY, JSON.stringify(newProjects));
+      try {
+          await deleteProject(id);
+          setSavedProjects(prev => prev.filter(p => p.id !== id));
+      } catch (err: any) {
+          setError(`Could not delete project: ${err.message || err}`);
+      }
   };
 
   // --- Logic ---
   const goHome = () => {
     if (project.output && !window.confirm(t.confirmDelete)) return;
+    cancelAllGeneration();
     setLoading(false);
-    setAudioLoadingIndex(null);
-    setImageLoadingIndex(null);
     setError(null);
     setCurrentTab('script');
     setProject(prev => ({
         id: Date.now().toString(),
+        schemaVersion: CURRENT_SCHEMA_VERSION,
         createdAt: Date.now(),
         config: getInitialConfig(),
         output: null,
         mediaSettings: getInitialMediaSettings(),
         imageStyle: getInitialImageStyle(),
         voiceConfig: getInitialVoice(),
-        apiKey: prev.apiKey 
+        apiKey: prev.apiKey,
+        provider: prev.provider,
+        models: prev.models,
+        audioExport: prev.audioExport,
+        subtitles: prev.subtitles,
+        queue: prev.queue,
+        bypassCache: prev.bypassCache
     }));
   };
 
@@ -193,11 +388,31 @@ const App: React.FC = () => {
       setProject(p => ({ ...p, imageStyle: { ...p.imageStyle, ...updates } }));
   };
 
+  const handleAudioExportUpdate = (updates: Partial<AudioExportSettings>) => {
+      setProject(p => ({ ...p, audioExport: { ...getInitialAudioExport(), ...p.audioExport, ...updates } }));
+  };
+
+  const handleSubtitleUpdate = (updates: Partial<SubtitleSettings>) => {
+      setProject(p => ({ ...p, subtitles: { ...getInitialSubtitles(), ...p.subtitles, ...updates } }));
+  };
+
+  const queueSettings = { ...DEFAULT_QUEUE_SETTINGS, ...project.queue };
+
+  const handleQueueUpdate = (updates: Partial<QueueSettings>) => {
+      setProject(p => ({ ...p, queue: { ...DEFAULT_QUEUE_SETTINGS, ...p.queue, ...updates } }));
+  };
+
+  const handleModelChainUpdate = (modality: ModelModality, value: string) => {
+      const chain = value.split(',').map(m => m.trim()).filter(Boolean);
+      setProject(p => ({ ...p, models: { ...getInitialModels(), ...p.models, [modality]: chain } }));
+  };
+
   // --- Generation Functions ---
 
   const generateScript = async () => {
     setLoading(true);
     setError(null);
+    await snapshotRevision('regenerateScript');
     
     let configToUse = { ...project.config };
     // Try to auto-fix missing characters if user skipped the step
@@ -205,185 +420,502 @@ const App: React.FC = () => {
         // Warning: This silently proceeds, relying on Gemini to generate generic characters if list is empty
     }
 
+    const run = startGeneration();
+    scriptAbort.current = run.controller;
     try {
-      const output = await generateStory(
-          { ...configToUse, language: lang }, 
-          project.voiceConfig,
-          project.imageStyle, // Pass Image Style for prompt consistency
-          project.apiKey
-      );
-      setProject(p => ({ ...p, output }));
+      const output = configToUse.longForm
+          ? await generateChapteredStory(
+              { ...configToUse, language: lang },
+              project.voiceConfig,
+              project.imageStyle,
+              project.draft || null,
+              // Saved as it goes, so a failed run resumes from the last finished chapter
+              draft => run.isCurrent() && setProject(p => ({ ...p, draft })),
+              run.options
+          )
+          : await generateStory(
+              { ...configToUse, language: lang }, 
+              project.voiceConfig,
+              project.imageStyle, // Pass Image Style for prompt consistency
+              run.options,
+              story => run.isCurrent() && setLiveOutput(story)
+          );
+      // Stopped before the first scene finished: nothing worth keeping
+      if (output.scenes.length && run.isCurrent()) {
+          setProject(p => ({ ...p, output: { ...output, title: output.title || configToUse.premise.substring(0, 30) }, draft: undefined }));
+          setSceneUndo([]);
+      }
     } catch (err: any) {
-      setError(err.message || "Script generation failed.");
+      // A stopped chaptered run keeps its draft and can be resumed
+      if (!isAbortError(err)) setError(err.message || "Script generation failed.");
     } finally {
-      setLoading(false);
+      run.finish();
+      if (scriptAbort.current === run.controller) scriptAbort.current = null;
+      if (run.isCurrent()) {
+          setLiveOutput(null);
+          setLoading(false);
+      }
     }
   };
 
-  const handleGenerateAudio = async (sceneIndex: number) => {
-    if (!project.output) return;
-    setAudioLoadingIndex(sceneIndex);
+  const stopScriptGeneration = () => scriptAbort.current?.abort();
+
+  const discardDraft = () => setProject(p => ({ ...p, draft: undefined }));
+
+  // Media writes land by scene id: the scene may have been renumbered or moved while the request ran
+  // Pass a function when the update depends on the scene's latest state (e.g. appending a take)
+  const updateScene = (sceneId: string, updates: Partial<Scene> | ((scene: Scene) => Partial<Scene>)) => {
+      setProject(p => {
+          if (!p.output) return p;
+          return { ...p, output: { ...p.output, scenes: p.output.scenes.map(s => s.id === sceneId ? { ...s, ...(typeof updates === 'function' ? updates(s) : updates) } : s) } };
+      });
+  };
+
+  // Resolve active characters for consistency: partial match names
+  const charactersInScene = (scene: Scene) => project.config.characters.filter(c => 
+      scene.characterNames?.some(n => n.toLowerCase().includes(c.name.toLowerCase()) || c.name.toLowerCase().includes(n.toLowerCase()))
+  );
+
+  // --- Scene Editing ---
+  // Undo entries refer to scenes by id, so they only make sense within one script
+  useEffect(() => setSceneUndo([]), [project.id]);
+
+  const handleSceneEdit = (sceneIndex: number, updates: SceneTextEdit) => {
+      const scene = project.output?.scenes[sceneIndex];
+      if (!scene) return;
+      const previous: SceneTextEdit = {};
+      const keep = <K extends keyof SceneTextEdit>(key: K) => { previous[key] = scene[key]; };
+      (Object.keys(updates) as (keyof SceneTextEdit)[]).forEach(keep);
+      setSceneUndo(stack => [...stack.slice(-(MAX_SCENE_UNDO - 1)), { sceneId: scene.id, previous }]);
+      updateScene(scene.id, { ...updates });
+  };
+
+  // Undo restores text only; media generated since stays, and shows as stale if it no longer matches
+  const handleUndoSceneEdit = () => {
+      const last = sceneUndo[sceneUndo.length - 1];
+      if (!last) return;
+      setSceneUndo(stack => stack.slice(0, -1));
+      setProject(p => {
+          if (!p.output) return p;
+          return { ...p, output: { ...p.output, scenes: p.output.scenes.map(s => s.id === last.sceneId ? { ...s, ...last.previous } : s) } };
+      });
+  };
+
+  // --- Scene Structure ---
+  // Reordering while media requests are in flight would shift the loading indicators onto other cards
+  const mediaBusy = generatingAllAudio || generatingAllImages || regeneratingStale || activeJobs.length > 0;
+  const canRestructure = !mediaBusy && rewritingId === null && insertingAt === null;
+
+  const storyConfig = (): StoryConfig => ({ ...project.config, language: lang });
+
+  // Goes through handleSceneEdit so the rewrite can be undone, and existing media shows as stale
+  const handleRegenerateScene = async (sceneIndex: number) => {
+      const target = project.output?.scenes[sceneIndex];
+      if (!project.output || !target || !canRestructure) return;
+      setRewritingId(target.id);
+      setError(null);
+      const run = startGeneration();
+      try {
+          const scene = await generateScene(storyConfig(), project.voiceConfig, project.imageStyle, project.output, sceneIndex, 'replace', run.options);
+          if (run.isCurrent()) handleSceneEdit(sceneIndex, {
+              narrative: scene.narrative,
+              segments: scene.segments,
+              imagePrompt: scene.imagePrompt,
+              motionPrompt: scene.motionPrompt,
+              characterNames: scene.characterNames,
+          });
+      } catch (err: any) {
+          if (!isAbortError(err)) setError(`Scene rewrite failed: ${err.message}`);
+      } finally {
+          run.finish();
+          if (run.isCurrent()) setRewritingId(null);
+      }
+  };
+
+  // New scene lands at `position` (0 = first); it has no media until generated
+  const handleInsertScene = async (position: number) => {
+      if (!project.output || !canRestructure) return;
+      setInsertingAt(position);
+      setError(null);
+      const run = startGeneration();
+      try {
+          const scene = await generateScene(storyConfig(), project.voiceConfig, project.imageStyle, project.output, position, 'insert', run.options);
+          setProject(p => {
+              if (!p.output || !run.isCurrent()) return p;
+              const scenes = [...p.output.scenes];
+              scenes.splice(Math.min(position, scenes.length), 0, scene);
+              return { ...p, output: { ...p.output, scenes: renumberScenes(scenes) } };
+          });
+      } catch (err: any) {
+          if (!isAbortError(err)) setError(`Scene insert failed: ${err.message}`);
+      } finally {
+          run.finish();
+          if (run.isCurrent()) setInsertingAt(null);
+      }
+  };
+
+  const handleDeleteScene = async (sceneIndex: number) => {
+      const scene = project.output?.scenes[sceneIndex];
+      if (!scene || !canRestructure || !window.confirm(t.confirmDeleteScene)) return;
+      await snapshotRevision('deleteScene');
+      setSceneUndo(stack => stack.filter(entry => entry.sceneId !== scene.id));
+      setProject(p => {
+          if (!p.output) return p;
+          return { ...p, output: { ...p.output, scenes: renumberScenes(p.output.scenes.filter(s => s.id !== scene.id)) } };
+      });
+  };
+
+  const handleMoveScene = (from: number, to: number) => {
+      if (!canRestructure || from === to) return;
+      setProject(p => {
+          if (!p.output || !p.output.scenes[from]) return p;
+          const scenes = [...p.output.scenes];
+          const [moved] = scenes.splice(from, 1);
+          scenes.splice(Math.min(to, scenes.length), 0, moved);
+          return { ...p, output: { ...p.output, scenes: renumberScenes(scenes) } };
+      });
+  };
+
+  // --- Media Jobs ---
+  // Audio and image requests run through the shared job queue. Results land by scene id, and only
+  // while the project that queued them is still open (a failed job can be retried much later).
+  const queueAudio = (scene: Scene, options: RequestOptions) => {
+      const projectId = project.id;
+      const { voiceConfig, config } = project;
+      return enqueueJob({
+          kind: 'audio',
+          label: `Scene ${scene.sceneNumber}`,
+          projectId,
+          sceneId: scene.id,
+          signal: options.signal,
+          run: signal => generateSceneAudio(scene, voiceConfig, config.characters, { ...options, signal }),
+          onResult: audio => {
+              if (openProjectId.current === projectId) updateScene(scene.id, { audioData: audio.data, audioModel: audio.model, audioSource: audioSourceOf(scene) });
+          },
+      });
+  };
+
+  // One job per variation. Takes land in the scene's gallery; a single take replaces the selected
+  // image, while a batch only fills in a missing or stale one so the user can compare and pick.
+  // `correction` (see correctiveNote) is appended to the prompt; the take still counts as made from the scene's prompt
+  const queueImage = (scene: Scene, options: RequestOptions, correction?: string): Promise<unknown>[] => {
+      const projectId = project.id;
+      const { mediaSettings, imageStyle } = project;
+      const activeChars = charactersInScene(scene);
+      const count = Math.max(1, mediaSettings.variations || 1);
+      const source = imageSourceOf(scene);
+      const seed = scene.pinnedSeed ?? mediaSettings.seed;
+      // Unpinned takes are cached by variation index. Numbering them after the scene's existing and
+      // queued takes makes each re-roll a new request, while a scene's first batch can still hit the cache
+      const firstVariation = seed === undefined
+          ? (scene.imageTakes?.length || 0) + activeJobs.filter(j => j.kind === 'image' && j.sceneId === scene.id).length
+          : 0;
+      return Array.from({ length: count }, (_, k) => enqueueJob({
+          kind: 'image',
+          label: count > 1 ? `Scene ${scene.sceneNumber} · ${k + 1}/${count}` : `Scene ${scene.sceneNumber}`,
+          projectId,
+          sceneId: scene.id,
+          signal: options.signal,
+          run: signal => generateImage(scene.imagePrompt + (correction || ''), mediaSettings, imageStyle, { ...options, signal }, activeChars, seed, firstVariation + k),
+          onResult: image => {
+              if (openProjectId.current !== projectId) return;
+              const take: ImageTake = { id: createTakeId(), url: image.data, model: image.model, seed: image.seed, source, createdAt: Date.now() };
+              updateScene(scene.id, current => addTake(current, take, count === 1));
+          },
+      }));
+  };
+
+  // pinnedModel re-runs with exactly that model instead of the fallback chain
+  const handleGenerateAudio = async (sceneIndex: number, pinnedModel?: string) => {
+    const scene = project.output?.scenes[sceneIndex];
+    if (!scene) return;
+    const run = startGeneration();
     try {
-        const scene = project.output.scenes[sceneIndex];
-        const base64Wav = await generateSpeech(scene.narrative, project.voiceConfig.voiceType, project.apiKey);
-        
-        // Functional update to avoid stale closure in loops
-        setProject(p => {
-             if (!p.output) return p;
-             const newScenes = [...p.output.scenes];
-             newScenes[sceneIndex] = { ...scene, audioData: base64Wav };
-             return { ...p, output: { ...p.output, scenes: newScenes } };
-        });
+        await queueAudio(scene, { ...run.options, model: pinnedModel });
     } catch (err: any) {
         console.error(err);
-        setError(`Audio failed: ${err.message}`);
+        if (!isAbortError(err) && run.isCurrent()) setError(`Audio failed: ${err.message}`);
     } finally {
-        setAudioLoadingIndex(null);
+        run.finish();
     }
   };
 
-  const handleGenerateAllAudio = async () => {
+  const handleGenerateImage = async (sceneIndex: number, pinnedModel?: string) => {
+    const scene = project.output?.scenes[sceneIndex];
+    if (!scene) return;
+    const run = startGeneration();
+    try {
+        await Promise.all(queueImage(scene, { ...run.options, model: pinnedModel }));
+    } catch (err: any) {
+        console.error(err);
+        if (!isAbortError(err) && run.isCurrent()) setError(`Image failed: ${err.message}`);
+    } finally {
+        run.finish();
+    }
+  };
+
+  // Bulk runs queue every job up front; failures are listed in the queue panel for retry
+  // reason is null for runs that leave the media alone (no revision snapshot needed)
+  const runBulk = async (reason: RevisionReason | null, setRunning: (running: boolean) => void, queue: (options: RequestOptions) => Promise<unknown>[]) => {
     if (!project.output) return;
-    setGeneratingAllAudio(true);
+    setRunning(true);
     setError(null);
-    
-    // Sequential to avoid rate limits
-    for (let i = 0; i < project.output.scenes.length; i++) {
-        try {
-            const scene = project.output.scenes[i];
-            setAudioLoadingIndex(i);
-            const base64Wav = await generateSpeech(scene.narrative, project.voiceConfig.voiceType, project.apiKey);
-            setProject(p => {
-                if (!p.output) return p;
-                const newScenes = [...p.output.scenes];
-                newScenes[i] = { ...newScenes[i], audioData: base64Wav };
-                return { ...p, output: { ...p.output, scenes: newScenes } };
-           });
-        } catch (err: any) {
-            console.error(err);
-            // Continue with next
-        }
+    if (reason) await snapshotRevision(reason);
+    const run = startGeneration();
+    bulkAbort.current = run.controller;
+    const results = await Promise.allSettled(queue(run.options));
+    run.finish();
+    if (bulkAbort.current === run.controller) bulkAbort.current = null;
+    if (!run.isCurrent()) return;
+    setRunning(false);
+    const failed = results.filter(r => r.status === 'rejected' && !isAbortError(r.reason)).length;
+    if (failed) setError(`${failed} ${t.jobsFailedNotice}`);
+  };
+
+  const handleGenerateAllAudio = () => runBulk('generateAllAudio', setGeneratingAllAudio,
+    options => project.output!.scenes.map(scene => queueAudio(scene, options)));
+
+  const handleGenerateAllImages = () => runBulk('generateAllImages', setGeneratingAllImages,
+    options => project.output!.scenes.flatMap(scene => queueImage(scene, options)));
+
+  // Regenerates only media whose source text was edited after it was made
+  const handleRegenerateStale = () => runBulk('regenerateStale', setRegeneratingStale,
+    options => project.output!.scenes.flatMap(scene => [
+        ...(isAudioStale(scene) ? [queueAudio(scene, options)] : []),
+        ...(isImageStale(scene) ? queueImage(scene, options) : []),
+    ]));
+
+  // --- Character consistency ---
+  // The selected image is checked by the vision model against the descriptions of the scene's characters
+  const canCheckConsistency = (scene: Scene) => !!scene.imageUrl && charactersInScene(scene).length > 0;
+
+  const queueCheck = (scene: Scene, options: RequestOptions) => {
+      const projectId = project.id;
+      const { imageUrl, selectedTakeId } = scene;
+      const characters = charactersInScene(scene);
+      return enqueueJob({
+          kind: 'check',
+          label: `Scene ${scene.sceneNumber}`,
+          projectId,
+          sceneId: scene.id,
+          signal: options.signal,
+          run: signal => checkCharacterConsistency(imageUrl!, characters, { ...options, signal }),
+          onResult: ({ issues, model }) => {
+              if (openProjectId.current === projectId) updateScene(scene.id, { consistency: { takeId: selectedTakeId, issues, model, checkedAt: Date.now() } });
+          },
+      });
+  };
+
+  const handleCheckConsistency = async (scene: Scene) => {
+    const run = startGeneration();
+    try {
+        await queueCheck(scene, run.options);
+    } catch (err: any) {
+        console.error(err);
+        if (!isAbortError(err) && run.isCurrent()) setError(`Consistency check failed: ${err.message}`);
+    } finally {
+        run.finish();
     }
-    setAudioLoadingIndex(null);
-    setGeneratingAllAudio(false);
   };
 
-  const handleGenerateImage = async (sceneIndex: number) => {
-    if (!project.output) return;
-    setImageLoadingIndex(sceneIndex);
+  const handleCheckAllConsistency = () => runBulk(null, setCheckingAll,
+    options => project.output!.scenes.filter(canCheckConsistency).map(scene => queueCheck(scene, options)));
+
+  const handleRegenerateWithFixes = async (scene: Scene, issues: ConsistencyIssue[]) => {
+    const run = startGeneration();
     try {
-        const scene = project.output.scenes[sceneIndex];
-        
-        // Resolve active characters for consistency: partial match names
-        const activeChars = project.config.characters.filter(c => 
-            scene.characterNames?.some(n => n.toLowerCase().includes(c.name.toLowerCase()) || c.name.toLowerCase().includes(n.toLowerCase()))
-        );
-
-        const base64Img = await generateImage(
-            scene.imagePrompt, 
-            project.mediaSettings, 
-            project.imageStyle, 
-            project.apiKey,
-            activeChars
-        );
-        
-        setProject(p => {
-             if (!p.output) return p;
-             const newScenes = [...p.output.scenes];
-             newScenes[sceneIndex] = { ...scene, imageUrl: base64Img };
-             return { ...p, output: { ...p.output, scenes: newScenes } };
-        });
+        await Promise.all(queueImage(scene, run.options, correctiveNote(issues)));
     } catch (err: any) {
         console.error(err);
-        setError(`Image failed: ${err.message}`);
+        if (!isAbortError(err) && run.isCurrent()) setError(`Image failed: ${err.message}`);
     } finally {
-        setImageLoadingIndex(null);
+        run.finish();
     }
   };
 
-  const handleGenerateAllImages = async () => {
-    if (!project.output) return;
-    setGeneratingAllImages(true);
-    setError(null);
-    
-    for (let i = 0; i < project.output.scenes.length; i++) {
-        try {
-            const scene = project.output.scenes[i];
-            setImageLoadingIndex(i);
-            
-            // Resolve active characters for consistency
-            const activeChars = project.config.characters.filter(c => 
-                scene.characterNames?.some(n => n.toLowerCase().includes(c.name.toLowerCase()) || c.name.toLowerCase().includes(n.toLowerCase()))
-            );
-
-            const base64Img = await generateImage(
-                scene.imagePrompt, 
-                project.mediaSettings, 
-                project.imageStyle, 
-                project.apiKey,
-                activeChars
-            );
-            setProject(p => {
-                if (!p.output) return p;
-                const newScenes = [...p.output.scenes];
-                newScenes[i] = { ...newScenes[i], imageUrl: base64Img };
-                return { ...p, output: { ...p.output, scenes: newScenes } };
-           });
-        } catch (err: any) {
-            console.error(err);
-            // Continue to try other images even if one fails
+  const handleSelectTake = (sceneId: string, take: ImageTake) => updateScene(sceneId, selectTake(take));
+
+  // Takes from models that ignore imageSize come back at ~1K whatever the resolution setting
+  const canUpscale = (scene: Scene) => {
+      const resolution = project.mediaSettings.resolution || '1K';
+      const take = scene.imageTakes?.find(tk => tk.id === scene.selectedTakeId);
+      return resolution !== '1K' && !!take?.model && !supportsImageSize(take.model) && !take.upscaled && !fullSizeTakeIds.has(take.id);
+  };
+
+  const handleUpscale = async (scene: Scene) => {
+    const take = scene.imageTakes?.find(tk => tk.id === scene.selectedTakeId);
+    if (!take) return;
+    setUpscalingId(scene.id);
+    try {
+        const longEdge = RESOLUTION_LONG_EDGE[project.mediaSettings.resolution || '1K'];
+        // Some fallback models do return full-size images; those need no second take
+        const url = await imageLongEdge(take.url) >= longEdge ? take.url : await upscaleImage(take.url, longEdge);
+        if (url === take.url) {
+            setFullSizeTakeIds(ids => new Set(ids).add(take.id));
+            return;
         }
+        const upscaled: ImageTake = { ...take, id: createTakeId(), url, editOf: take.id, upscaled: true, createdAt: Date.now() };
+        updateScene(scene.id, current => addTake(current, upscaled, true));
+    } catch (err: any) {
+        console.error(err);
+        setError(`Upscale failed: ${err.message}`);
+    } finally {
+        setUpscalingId(null);
+    }
+  };
+
+  // Derives the scene image for another aspect ratio. 'auto' asks the vision model where the
+  // characters are and crops around them, or outpaints when no crop of that shape holds them all.
+  const handleReframe = async (sceneId: string, aspect: AspectRatio, method: ReframeMethod, focus?: FocusPoint) => {
+    const scene = project.output?.scenes.find(s => s.id === sceneId);
+    if (!scene?.imageUrl) return;
+    const projectId = project.id;
+    const { imageUrl, selectedTakeId, characterNames } = scene;
+    const save = (reframe: SceneReframe) => {
+        if (openProjectId.current === projectId) updateScene(sceneId, current => ({ reframes: { ...current.reframes, [aspect]: reframe } }));
+    };
+    const run = startGeneration();
+    try {
+        let useOutpaint = method === 'outpaint';
+        if (method === 'auto') {
+            setReframeStatus(t.detectingSubjects);
+            const subjects = await locateSubjects(imageUrl, characterNames, run.options);
+            if (subjects) {
+                focus = focus ?? focusOfSubjects(subjects);
+                const { width, height } = await imageSize(imageUrl);
+                useOutpaint = cropCutsSubjects(width, height, aspect, focus, subjects);
+            }
+        }
+        if (useOutpaint) {
+            setReframeStatus(`${t.outpaint}...`);
+            await enqueueJob({
+                kind: 'image',
+                label: `Scene ${scene.sceneNumber} · ${aspect}`,
+                projectId,
+                sceneId,
+                signal: run.options.signal,
+                run: signal => outpaintImage(imageUrl, aspect, project.mediaSettings, { ...run.options, signal }),
+                onResult: image => save({ url: image.data, method: 'outpaint', model: image.model, takeId: selectedTakeId, createdAt: Date.now() }),
+            });
+        } else {
+            const center = focus ?? { x: 0.5, y: 0.5 };
+            save({ url: await cropToAspect(imageUrl, aspect, center), method: 'crop', focus: center, takeId: selectedTakeId, createdAt: Date.now() });
+        }
+    } catch (err: any) {
+        console.error(err);
+        if (!isAbortError(err) && run.isCurrent()) setError(`Reframe failed: ${err.message}`);
+    } finally {
+        run.finish();
+        setReframeStatus(null);
     }
-    setImageLoadingIndex(null);
-    setGeneratingAllImages(false);
   };
 
+  // Edits the selected image; the result is a new, selected take and the original stays in the gallery
+  const handleEditImage = async (sceneId: string, instruction: string, mask: string | undefined) => {
+    setEditingImageOf(null);
+    const scene = project.output?.scenes.find(s => s.id === sceneId);
+    if (!scene?.imageUrl) return;
+    const projectId = project.id;
+    const { mediaSettings } = project;
+    const { imageUrl, imageSource, selectedTakeId } = scene;
+    const run = startGeneration();
+    try {
+        await enqueueJob({
+            kind: 'image',
+            label: `Scene ${scene.sceneNumber} · ${t.editImage}`,
+            projectId,
+            sceneId,
+            signal: run.options.signal,
+            run: signal => editImage(imageUrl, instruction, mask, mediaSettings, { ...run.options, signal }),
+            onResult: image => {
+                if (openProjectId.current !== projectId) return;
+                const take: ImageTake = { id: createTakeId(), url: image.data, model: image.model, source: imageSource, editOf: selectedTakeId, instruction, createdAt: Date.now() };
+                updateScene(sceneId, current => addTake(current, take, true));
+            },
+        });
+    } catch (err: any) {
+        console.error(err);
+        if (!isAbortError(err) && run.isCurrent()) setError(`Image edit failed: ${err.message}`);
+    } finally {
+        run.finish();
+    }
+  };
+
+  const handleRetryJob = (id: string) => retryJob(id).catch(err => console.error(err));
+
   const handleImageUpload = (sceneIndex: number, e: React.ChangeEvent<HTMLInputElement>) => {
-     if (!project.output || !e.target.files?.[0]) return;
+     const scene = project.output?.scenes[sceneIndex];
+     if (!scene || !e.target.files?.[0]) return;
      const file = e.target.files[0];
      const reader = new FileReader();
      reader.onload = (ev) => {
          const base64 = ev.target?.result as string;
-         setProject(p => {
-             if (!p.output) return p;
-             const newScenes = [...p.output.scenes];
-             newScenes[sceneIndex] = { ...newScenes[sceneIndex], imageUrl: base64 };
-             return { ...p, output: { ...p.output, scenes: newScenes } };
-         });
+         const take: ImageTake = { id: createTakeId(), url: base64, createdAt: Date.now() };
+         updateScene(scene.id, current => addTake(current, take, true));
      };
      reader.readAsDataURL(file);
   };
 
-  const downloadFile = (dataUrl: string, filename: string) => {
+  // Blobs get a temporary object URL, released once the click has started the download
+  const downloadFile = (data: string | Blob, filename: string) => {
+    const url = typeof data === 'string' ? data : URL.createObjectURL(data);
     const link = document.createElement('a');
-    link.href = dataUrl;
+    link.href = url;
     link.download = filename;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
+    if (typeof data !== 'string') setTimeout(() => URL.revokeObjectURL(url));
+  };
+
+  // Per-scene narration in the format chosen in the Audio sidebar
+  const downloadSceneAudio = async (sceneNumber: number, audioData: string) => {
+    const { format, bitrate } = { ...getInitialAudioExport(), ...project.audioExport };
+    try {
+        const blob = format === 'wav'
+            ? new Blob([Uint8Array.from(atob(audioData), c => c.charCodeAt(0))], { type: 'audio/wav' })
+            : await encodeAudio(decodeWav(audioData), format, bitrate);
+        downloadFile(blob, `scene-${sceneNumber}.${AUDIO_EXTENSIONS[format]}`);
+    } catch (err: any) {
+        setError(`Audio export failed: ${err.message}`);
+    }
   };
 
   const downloadProjectFile = () => {
-    const json = JSON.stringify(project);
+    const json = JSON.stringify({ ...project, schemaVersion: CURRENT_SCHEMA_VERSION });
     const blob = new Blob([json], {type: "application/json"});
-    const url = URL.createObjectURL(blob);
-    downloadFile(url, `project-${project.config.category || 'untitled'}-${Date.now()}.json`);
+    downloadFile(blob, `project-${project.config.category || 'untitled'}-${Date.now()}.json`);
+  };
+
+  const downloadProjectBundle = () => {
+    try {
+        downloadFile(exportProjectBundle(project), `project-${project.config.category || 'untitled'}-${Date.now()}.zip`);
+    } catch (err: any) {
+        setError(`Bundle export failed: ${err.message || err}`);
+    }
   };
 
-  const loadProjectFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const loadProjectFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
       if (!file) return;
+      e.target.value = '';
+      if (file.name.toLowerCase().endsWith('.zip')) {
+          try {
+              // Bundles are exported without the API key; keep the one in use
+              const opened = openProject(await importProjectBundle(file), project.apiKey);
+              setLang(opened.config.language || 'ar');
+          } catch (err: any) {
+              setError(err instanceof SyntaxError ? "Invalid project bundle: project.json is not valid JSON." : err.message);
+          }
+          return;
+      }
       const reader = new FileReader();
       reader.onload = (event) => {
           try {
-              const loaded = JSON.parse(event.target?.result as string);
-              setProject({
-                  ...loaded,
-                  imageStyle: { ...getInitialImageStyle(), ...(loaded.imageStyle || {}) }
-              });
-              setLang(loaded.config.language || 'ar');
-          } catch (err) {
-              setError("Invalid project file");
+              const loaded: unknown = JSON.parse(event.target?.result as string);
+              setLang(openProject(loaded).config.language || 'ar');
+          } catch (err: any) {
+              setError(err instanceof SyntaxError ? "Invalid project file: not valid JSON." : err.message);
           }
       };
       reader.readAsText(file);
@@ -433,6 +965,27 @@ const App: React.FC = () => {
     <div className="min-h-screen bg-background text-slate-200" dir={lang === 'ar' ? 'rtl' : 'ltr'}>
       
       {/* Settings Modal */}
+      {editingImageOf && project.output?.scenes.find(s => s.id === editingImageOf)?.imageUrl && (
+          <ImageEditor
+            imageUrl={project.output.scenes.find(s => s.id === editingImageOf)!.imageUrl!}
+            lang={lang}
+            onSubmit={(instruction, mask) => handleEditImage(editingImageOf, instruction, mask)}
+            onClose={() => setEditingImageOf(null)}
+          />
+      )}
+
+      {reframingOf && project.output?.scenes.find(s => s.id === reframingOf)?.imageUrl && (
+          <ReframeEditor
+            scene={project.output.scenes.find(s => s.id === reframingOf)!}
+            projectAspect={project.mediaSettings.aspectRatio}
+            busy={reframeStatus}
+            lang={lang}
+            onReframe={(aspect, method, focus) => handleReframe(reframingOf, aspect, method, focus)}
+            onDownload={downloadFile}
+            onClose={() => setReframingOf(null)}
+          />
+      )}
+
       {showSettings && (
           <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" dir="ltr">
               <div className="bg-surface border border-slate-700 rounded-2xl p-6 w-full max-w-md shadow-2xl animate-fadeIn">
@@ -441,6 +994,18 @@ const App: React.FC = () => {
                       <button onClick={() => setShowSettings(false)} className="text-slate-400 hover:text-white"><X size={24}/></button>
                   </div>
                   <div className="space-y-6">
+                      <div>
+                          <label className="block text-sm text-slate-400 mb-2 font-semibold">AI Provider</label>
+                          <select
+                            value={project.provider || getActiveProvider()}
+                            onChange={(e) => setProject(p => ({...p, provider: e.target.value as ProviderId}))}
+                            className="w-full bg-slate-900 border border-slate-700 rounded-xl px-4 py-3 text-white focus:border-primary outline-none"
+                          >
+                              {PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                          </select>
+                          <p className="text-xs text-slate-500 mt-2">The mock provider returns placeholder scripts, audio and images without calling any API.</p>
+                      </div>
+
                       <div>
                           <label className="block text-sm text-slate-400 mb-2 font-semibold">Custom Gemini API Key</label>
                           <input 
@@ -466,6 +1031,53 @@ const App: React.FC = () => {
                           Select Google AI Studio Key
                       </button>
 
+                      <div>
+                          <label className="block text-sm text-slate-400 mb-2 font-semibold">{t.modelChains}</label>
+                          <div className="space-y-2">
+                              {(['text', 'speech', 'image', 'vision'] as ModelModality[]).map(modality => (
+                                  <div key={modality} className="flex items-center gap-2">
+                                      <span className="w-16 text-xs text-slate-500">{t[modality]}</span>
+                                      <input
+                                        type="text"
+                                        defaultValue={(project.models?.[modality] || DEFAULT_MODELS[modality]).join(', ')}
+                                        onBlur={(e) => handleModelChainUpdate(modality, e.target.value)}
+                                        className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-xs font-mono text-white focus:border-primary outline-none"
+                                      />
+                                  </div>
+                              ))}
+                          </div>
+                          <p className="text-xs text-slate-500 mt-2">{t.modelChainsDesc}</p>
+                      </div>
+
+                      <div>
+                          <label className="block text-sm text-slate-400 mb-2 font-semibold">{t.queueSettings}</label>
+                          <div className="flex items-center gap-2 mb-3">
+                              <span className="flex-1 text-xs text-slate-500">{t.concurrency}</span>
+                              <input
+                                type="number" min={1} max={8}
+                                value={queueSettings.concurrency}
+                                onChange={(e) => handleQueueUpdate({ concurrency: Math.max(1, parseInt(e.target.value) || 1) })}
+                                className="w-20 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white focus:border-primary outline-none"
+                              />
+                          </div>
+                          <p className="text-xs text-slate-500 mb-2">{t.requestsPerMinute}</p>
+                          <div className="space-y-2">
+                              {Array.from(new Set((['text', 'speech', 'image', 'vision'] as ModelModality[]).flatMap(m => project.models?.[m] || DEFAULT_MODELS[m]))).map(model => (
+                                  <div key={model} className="flex items-center gap-2">
+                                      <span className="flex-1 text-xs font-mono text-slate-400 truncate">{model}</span>
+                                      <input
+                                        type="number" min={0}
+                                        value={queueSettings.requestsPerMinute[model] ?? DEFAULT_REQUESTS_PER_MINUTE}
+                                        onChange={(e) => handleQueueUpdate({ requestsPerMinute: { ...queueSettings.requestsPerMinute, [model]: Math.max(0, parseInt(e.target.value) || 0) } })}
+                                        className="w-20 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white focus:border-primary outline-none"
+                                      />
+                                  </div>
+                              ))}
+                          </div>
+                      </div>
+
+                      <MediaCachePanel lang={lang} bypass={!!project.bypassCache} onBypassChange={(bypassCache) => setProject(p => ({ ...p, bypassCache }))} />
+
                       <button onClick={() => setShowSettings(false)} className="w-full py-3 bg-primary hover:bg-primary/90 rounded-xl text-white font-bold mt-4">Save & Close</button>
                   </div>
               </div>
@@ -477,7 +1089,7 @@ const App: React.FC = () => {
           <div className="fixed inset-0 z-[100] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4" dir={lang === 'ar' ? 'rtl' : 'ltr'}>
               <div className="bg-surface border border-slate-700 rounded-2xl p-6 w-full max-w-3xl shadow-2xl h-[80vh] flex flex-col animate-fadeIn">
                   <div className="flex justify-between items-center mb-6">
-                      <h2 className="text-2xl font-bold text-white flex items-center gap-2"><Archive size={24} className="text-secondary"/> {t.openArchive} ({savedProjects.length}/50)</h2>
+                      <h2 className="text-2xl font-bold text-white flex items-center gap-2"><Archive size={24} className="text-secondary"/> {t.openArchive} ({savedProjects.length})</h2>
                       <button onClick={() => setShowArchive(false)} className="text-slate-400 hover:text-white"><X size={24}/></button>
                   </div>
                   
@@ -486,15 +1098,16 @@ const App: React.FC = () => {
                           <div className="text-center text-slate-500 py-20">No saved projects found.</div>
                       ) : (
                           savedProjects.map(p => (
-                              <div key={p.id} className="flex items-center justify-between bg-slate-900 border border-slate-800 p-4 rounded-xl hover:border-slate-600 transition-colors">
-                                  <div onClick={() => loadFromArchive(p)} className="cursor-pointer flex-1">
+                              <div key={p.id} className="flex items-center justify-between gap-4 bg-slate-900 border border-slate-800 p-4 rounded-xl hover:border-slate-600 transition-colors">
+                                  <ArchiveThumbnail mediaKey={p.thumbnailKey} />
+                                  <div onClick={() => openFromArchive(p.id)} className="cursor-pointer flex-1">
                                       <h3 className="font-bold text-white mb-1">{p.title || "Untitled Project"}</h3>
                                       <p className="text-xs text-slate-400">
-                                          {new Date(p.lastSaved || p.createdAt).toLocaleString()} • {p.config.sceneCount} Scenes • {p.config.category}
+                                          {new Date(p.lastSaved || p.createdAt).toLocaleString()} • {p.sceneCount} Scenes • {p.category}
                                       </p>
                                   </div>
                                   <div className="flex gap-2">
-                                      <button onClick={() => loadFromArchive(p)} className="p-2 hover:bg-primary/20 text-primary rounded-lg" title="Load">
+                                      <button onClick={() => openFromArchive(p.id)} className="p-2 hover:bg-primary/20 text-primary rounded-lg" title="Load">
                                           <FolderOpen size={18}/>
                                       </button>
                                       <button onClick={(e) => deleteFromArchive(p.id, e)} className="p-2 hover:bg-red-500/20 text-red-400 rounded-lg" title="Delete">
@@ -509,6 +1122,42 @@ const App: React.FC = () => {
           </div>
       )}
 
+      {/* Revision History Modal */}
+      {showRevisions && (
+          <RevisionHistory
+              lang={lang}
+              project={project}
+              onRestore={handleRestoreRevision}
+              onClose={() => setShowRevisions(false)}
+              onError={setError}
+          />
+      )}
+
+      {/* Media Queue Status */}
+      <JobQueuePanel jobs={projectJobs} lang={lang} onRetry={handleRetryJob} onDismiss={dismissJob} />
+
+      {/* Restore Session Prompt */}
+      {pendingSession && (
+          <div className="fixed inset-0 z-[110] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4" dir={lang === 'ar' ? 'rtl' : 'ltr'}>
+              <div className="bg-surface border border-slate-700 rounded-2xl p-6 w-full max-w-md shadow-2xl animate-fadeIn">
+                  <h2 className="text-xl font-bold text-white flex items-center gap-2 mb-2"><History size={22} className="text-secondary"/> {t.restoreSession}</h2>
+                  <p className="text-sm text-slate-400 mb-1">{t.restoreSessionDesc}</p>
+                  <p className="text-sm text-slate-200 mb-6">
+                      {pendingSession.project.output?.title || pendingSession.project.config.premise.substring(0, 60)}
+                      <span className="text-xs text-slate-500"> • {new Date(pendingSession.savedAt).toLocaleString()}</span>
+                  </p>
+                  <div className="flex gap-3">
+                      <button onClick={() => resolvePendingSession(true)} className="flex-1 py-2.5 bg-primary hover:bg-primary/80 text-white rounded-lg text-sm font-bold transition-colors">
+                          {t.restore}
+                      </button>
+                      <button onClick={() => resolvePendingSession(false)} className="flex-1 py-2.5 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-sm font-bold transition-colors">
+                          {t.discard}
+                      </button>
+                  </div>
+              </div>
+          </div>
+      )}
+
       {/* Templates Modal */}
       {showTemplates && (
         <div className="fixed inset-0 z-[100] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4" dir={lang === 'ar' ? 'rtl' : 'ltr'}>
@@ -602,6 +1251,14 @@ const App: React.FC = () => {
                 >
                     <Save size={14} /> <span className="hidden lg:inline">{t.archiveProject}</span>
                 </button>
+                <button 
+                    onClick={() => setShowRevisions(true)} 
+                    disabled={!project.output}
+                    className="h-8 w-8 rounded flex items-center justify-center text-slate-300 hover:bg-white/10 hover:text-white transition-all disabled:opacity-40"
+                    title={t.revisions}
+                >
+                    <History size={14} />
+                </button>
              </div>
 
              <div className="h-6 w-px bg-white/10 mx-1 hidden sm:block" />
@@ -615,12 +1272,19 @@ const App: React.FC = () => {
                 >
                     <Download size={18} />
                 </button>
+                <button 
+                    onClick={downloadProjectBundle} 
+                    className="h-9 w-9 flex items-center justify-center rounded-lg text-slate-400 hover:text-white hover:bg-white/5 transition-colors"
+                    title={t.downloadBundle}
+                >
+                    <Package size={18} />
+                </button>
                 <label 
                     className="h-9 w-9 flex items-center justify-center rounded-lg text-slate-400 hover:text-white hover:bg-white/5 transition-colors cursor-pointer"
                     title={t.loadProject}
                 >
                     <Upload size={18} />
-                    <input type="file" accept=".json" onChange={loadProjectFile} className="hidden" />
+                    <input type="file" accept=".json,.zip" onChange={loadProjectFile} className="hidden" />
                 </label>
              </div>
           </div>
@@ -656,7 +1320,7 @@ const App: React.FC = () => {
                   <AlertCircle className="shrink-0 mt-0.5" size={20} />
                   <div>
                     <h3 className="font-bold text-red-100 mb-1">Error Occurred</h3>
-                    <p className="text-sm opacity-90">{error}</p>
+                    <p className="text-sm opacity-90 whitespace-pre-line">{error}</p>
                   </div>
                 </div>
                 <button onClick={() => setError(null)} className="text-red-300 hover:text-white"><X size={18}/></button>
@@ -667,8 +1331,40 @@ const App: React.FC = () => {
         {currentTab === 'script' && (
             <>
                 {!project.output ? (
-                    loading ? <StepLoading lang={lang} /> : (
+                    loading ? (
+                        liveOutput?.scenes.length ? (
+                            <div className="space-y-4">
+                                <div className="flex items-center justify-between max-w-7xl mx-auto bg-surface border border-slate-700 rounded-2xl px-4 py-3">
+                                    <span className="flex items-center gap-2 text-sm text-slate-300">
+                                        <RefreshCw size={16} className="animate-spin text-primary"/> {t.streamingScenes} ({liveOutput.scenes.length} / {project.config.sceneCount})
+                                    </span>
+                                    <button onClick={stopScriptGeneration} className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded-lg text-xs font-bold flex items-center gap-1.5 transition-colors">
+                                        <Square size={12}/> {t.stopAndKeep}
+                                    </button>
+                                </div>
+                                <StepResult data={liveOutput} lang={lang} />
+                            </div>
+                        ) : (
+                            <StepLoading lang={lang} draft={project.draft} chaptered={project.config.longForm} onCancel={stopScriptGeneration} />
+                        )
+                    ) : (
                         <>
+                            {project.draft && (
+                                <div className="max-w-4xl mx-auto mb-6 bg-amber-500/10 border border-amber-500/40 rounded-2xl p-4 flex flex-wrap items-center justify-between gap-3">
+                                    <div>
+                                        <p className="text-sm font-bold text-amber-300">{t.unfinishedStory}: {project.draft.outline.title}</p>
+                                        <p className="text-xs text-slate-400">{project.draft.completedChapters} / {project.draft.outline.chapters.length} {t.chaptersDone}</p>
+                                    </div>
+                                    <div className="flex gap-2">
+                                        <button onClick={discardDraft} className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-xs font-bold transition-colors">
+                                            {t.discard}
+                                        </button>
+                                        <button onClick={generateScript} className="px-3 py-1.5 bg-primary hover:bg-primary/80 text-white rounded-lg text-xs font-bold flex items-center gap-1.5 transition-colors">
+                                            <RefreshCw size={14}/> {t.resumeGeneration}
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
                             {project.config.category === '' ? (
                                 <StepCategory lang={lang} onSelect={(c) => handleConfigUpdate({ category: c })} />
                             ) : (
@@ -679,6 +1375,7 @@ const App: React.FC = () => {
                                     onUpdate={handleConfigUpdate} 
                                     onVoiceUpdate={handleVoiceUpdate}
                                     onGenerate={generateScript} 
+                                    requestOptions={requestOptions}
                                 />
                             )}
                         </>
@@ -693,7 +1390,27 @@ const App: React.FC = () => {
                                 {t.back}
                             </button>
                         </div>
-                        <StepResult data={project.output} lang={lang} />
+                        <StepResult
+                            data={project.output}
+                            lang={lang}
+                            onSceneEdit={handleSceneEdit}
+                            onUndo={handleUndoSceneEdit}
+                            canUndo={sceneUndo.length > 0}
+                            onRegenerateAudio={(idx) => handleGenerateAudio(idx)}
+                            onRegenerateImage={(idx) => handleGenerateImage(idx)}
+                            onRegenerateStale={handleRegenerateStale}
+                            onStopBulk={stopBulkGeneration}
+                            isAudioBusy={sceneId => isSceneBusy('audio', sceneId)}
+                            isImageBusy={sceneId => isSceneBusy('image', sceneId)}
+                            regeneratingStale={regeneratingStale || generatingAllAudio || generatingAllImages}
+                            onRegenerateScene={handleRegenerateScene}
+                            onInsertScene={handleInsertScene}
+                            onDeleteScene={handleDeleteScene}
+                            onMoveScene={handleMoveScene}
+                            rewritingId={rewritingId}
+                            insertingAt={insertingAt}
+                            canRestructure={canRestructure}
+                        />
                     </div>
                 )}
             </>
@@ -744,6 +1461,17 @@ const App: React.FC = () => {
                             selectedValue={project.voiceConfig.accent}
                             onChange={(val: any) => handleVoiceUpdate({accent: val})}
                         />
+
+                        {project.output && (
+                            <FullNarrationExport
+                                lang={lang}
+                                scenes={project.output.scenes}
+                                settings={project.audioExport || getInitialAudioExport()}
+                                onSettingsChange={handleAudioExportUpdate}
+                                onDownload={downloadFile}
+                                onError={setError}
+                            />
+                        )}
                     </div>
                 </div>
 
@@ -753,7 +1481,12 @@ const App: React.FC = () => {
                     ) : (
                         <>
                              {/* GENERATE ALL AUDIO BUTTON */}
-                            <div className="mb-6 flex justify-end">
+                            <div className="mb-6 flex justify-end gap-2">
+                                {generatingAllAudio && (
+                                    <button onClick={stopBulkGeneration} className="px-4 py-2.5 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded-xl font-bold transition-colors flex items-center gap-2">
+                                        <Square size={14}/> {t.stop}
+                                    </button>
+                                )}
                                 <button 
                                     onClick={handleGenerateAllAudio}
                                     disabled={generatingAllAudio}
@@ -766,11 +1499,30 @@ const App: React.FC = () => {
 
                             <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
                                 {project.output.scenes.map((scene, idx) => (
-                                    <div key={idx} className="bg-surface border border-slate-700/50 p-6 rounded-2xl hover:border-slate-600 transition-all flex flex-col h-full group">
+                                    <div key={scene.id} className="bg-surface border border-slate-700/50 p-6 rounded-2xl hover:border-slate-600 transition-all flex flex-col h-full group">
                                         <div className="flex justify-between items-center mb-4">
                                             <h3 className="font-bold text-white bg-slate-800 px-3 py-1 rounded-full text-xs">Scene {scene.sceneNumber}</h3>
+                                            <div className="flex items-center gap-1">
+                                                {isAudioStale(scene) && (
+                                                    <StaleBadge label={t.audioStale} title={t.regenerate} onRegenerate={() => handleGenerateAudio(idx)} busy={isSceneBusy('audio', scene.id)} />
+                                                )}
+                                                {scene.audioModel && (
+                                                    <span className="text-[10px] px-2 py-1 bg-slate-900 border border-slate-700 rounded-full text-slate-400 font-mono flex items-center gap-1" dir="ltr"><Cpu size={10}/> {scene.audioModel}</span>
+                                                )}
+                                            </div>
                                         </div>
-                                        <p className="text-slate-300 mb-6 font-light leading-relaxed text-sm flex-grow" dir="auto">{scene.narrative}</p>
+                                        {scene.segments?.length ? (
+                                            <div className="mb-6 space-y-1.5 flex-grow">
+                                                {scene.segments.map((seg, i) => (
+                                                    <p key={i} className="text-slate-300 font-light leading-relaxed text-sm" dir="auto">
+                                                        {seg.speaker !== NARRATOR && <span className="text-accent font-bold text-xs me-1.5">{seg.speaker}:</span>}
+                                                        {seg.text}
+                                                    </p>
+                                                ))}
+                                            </div>
+                                        ) : (
+                                            <p className="text-slate-300 mb-6 font-light leading-relaxed text-sm flex-grow" dir="auto">{scene.narrative}</p>
+                                        )}
                                         
                                         <div className="mt-auto pt-4 border-t border-slate-700/50">
                                             {scene.audioData ? (
@@ -778,28 +1530,38 @@ const App: React.FC = () => {
                                                     <audio controls src={`data:audio/wav;base64,${scene.audioData}`} className="w-full h-10 rounded-lg opacity-80 hover:opacity-100 transition-opacity" />
                                                     <div className="flex gap-2">
                                                         <button 
-                                                            onClick={() => downloadFile(`data:audio/wav;base64,${scene.audioData}`, `scene-${scene.sceneNumber}.wav`)}
+                                                            onClick={() => downloadSceneAudio(scene.sceneNumber, scene.audioData!)}
                                                             className="flex-1 flex items-center justify-center gap-2 bg-slate-800 hover:bg-slate-700 py-2 rounded-lg text-xs font-bold transition-colors"
                                                         >
-                                                            <Download size={14} /> {t.downloadMp3}
+                                                            <Download size={14} /> {project.audioExport?.format === 'mp3' ? t.downloadMp3 : AUDIO_EXTENSIONS[project.audioExport?.format || 'wav'].toUpperCase()}
                                                         </button>
                                                         <button 
                                                             onClick={() => handleGenerateAudio(idx)}
-                                                            disabled={audioLoadingIndex === idx || generatingAllAudio}
+                                                            disabled={isSceneBusy('audio', scene.id) || generatingAllAudio}
                                                             className="px-3 bg-slate-800 hover:bg-primary hover:text-white rounded-lg transition-colors"
                                                             title={t.regenerate}
                                                         >
-                                                            <RefreshCw size={14} className={audioLoadingIndex === idx ? "animate-spin" : ""} />
+                                                            <RefreshCw size={14} className={isSceneBusy('audio', scene.id) ? "animate-spin" : ""} />
                                                         </button>
+                                                        {scene.audioModel && (
+                                                            <button 
+                                                                onClick={() => handleGenerateAudio(idx, scene.audioModel)}
+                                                                disabled={isSceneBusy('audio', scene.id) || generatingAllAudio}
+                                                                className="px-3 bg-slate-800 hover:bg-primary hover:text-white rounded-lg transition-colors"
+                                                                title={`${t.rerunSameModel} (${scene.audioModel})`}
+                                                            >
+                                                                <RotateCcw size={14} />
+                                                            </button>
+                                                        )}
                                                     </div>
                                                 </div>
                                             ) : (
                                                 <button 
                                                     onClick={() => handleGenerateAudio(idx)}
-                                                    disabled={audioLoadingIndex === idx || generatingAllAudio}
+                                                    disabled={isSceneBusy('audio', scene.id) || generatingAllAudio}
                                                     className="w-full btn-primary text-sm py-3 rounded-lg"
                                                 >
-                                                    {audioLoadingIndex === idx ? t.generating : <><Music size={16} className="inline mx-2"/> Generate Audio</>}
+                                                    {isSceneBusy('audio', scene.id) ? t.generating : <><Music size={16} className="inline mx-2"/> Generate Audio</>}
                                                 </button>
                                             )}
                                         </div>
@@ -874,10 +1636,68 @@ const App: React.FC = () => {
 
                         <div className="mb-6">
                             <label className="block text-xs font-semibold text-slate-400 mb-2 uppercase tracking-wide">{t.modelQuality}</label>
-                            {/* Force Gemini 3 Pro - Read Only */}
-                             <div className="w-full bg-black/40 border border-slate-700 rounded-lg p-3 text-xs text-slate-300">
-                                 {t.pro} (Nano Banana Pro)
-                             </div>
+                            <select
+                                value={project.mediaSettings.imageModel}
+                                onChange={(e) => handleMediaSettingsUpdate({ imageModel: e.target.value as any })}
+                                className="w-full bg-black/40 border border-slate-700 rounded-lg p-3 text-xs text-slate-300 focus:border-primary outline-none"
+                            >
+                                {IMAGE_MODELS.map(m => (
+                                    <option key={m} value={m}>{m === 'gemini-3-pro-image-preview' ? `${t.pro} (Nano Banana Pro)` : t.flash}</option>
+                                ))}
+                            </select>
+                            <p className="text-[10px] text-slate-500 mt-2 font-mono">
+                                {t.fallbackChain}: {[project.mediaSettings.imageModel, ...(project.models?.image || DEFAULT_MODELS.image).filter(m => m !== project.mediaSettings.imageModel)].join(' → ')}
+                            </p>
+                        </div>
+
+                        <div className="mb-6">
+                            <label className="block text-xs font-semibold text-slate-400 mb-2 uppercase tracking-wide">{t.resolution}</label>
+                            <div className="grid grid-cols-3 gap-2">
+                                {(['1K', '2K', '4K'] as ImageResolution[]).map(size => (
+                                    <button
+                                        key={size}
+                                        onClick={() => handleMediaSettingsUpdate({ resolution: size })}
+                                        className={`py-2 rounded-lg text-xs border transition-all ${(project.mediaSettings.resolution || '1K') === size ? 'bg-primary border-primary text-white shadow-lg shadow-primary/20' : 'bg-black/40 border-slate-700 text-slate-400 hover:border-slate-500'}`}
+                                    >
+                                        {size}
+                                    </button>
+                                ))}
+                            </div>
+                            <p className="text-[10px] text-slate-500 mt-2">{t.resolutionDesc}</p>
+                        </div>
+
+                        <div className="mb-6">
+                            <label className="block text-xs font-semibold text-slate-400 mb-2 uppercase tracking-wide">{t.variations}</label>
+                            <div className="grid grid-cols-4 gap-2">
+                                {[1, 2, 3, 4].map(n => (
+                                    <button
+                                        key={n}
+                                        onClick={() => handleMediaSettingsUpdate({ variations: n })}
+                                        className={`py-2 rounded-lg text-xs border transition-all ${(project.mediaSettings.variations || 1) === n ? 'bg-primary border-primary text-white shadow-lg shadow-primary/20' : 'bg-black/40 border-slate-700 text-slate-400 hover:border-slate-500'}`}
+                                    >
+                                        {n}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div className="mb-6">
+                            <label className="block text-xs font-semibold text-slate-400 mb-2 uppercase tracking-wide">{t.seed}</label>
+                            <div className="flex gap-2">
+                                <input
+                                    type="number" min={0}
+                                    value={project.mediaSettings.seed ?? ''}
+                                    placeholder={t.seedRandom}
+                                    onChange={(e) => handleMediaSettingsUpdate({ seed: e.target.value === '' ? undefined : Math.max(0, parseInt(e.target.value) || 0) })}
+                                    className="flex-1 min-w-0 bg-black/40 border border-slate-700 rounded-lg p-2 text-xs text-slate-300 font-mono focus:border-primary outline-none"
+                                />
+                                {project.mediaSettings.seed !== undefined && (
+                                    <button onClick={() => handleMediaSettingsUpdate({ seed: undefined })} className="px-3 rounded-lg text-xs border border-slate-700 text-slate-400 hover:text-white hover:border-slate-500 transition-colors">
+                                        {t.unpinSeed}
+                                    </button>
+                                )}
+                            </div>
+                            <p className="text-[10px] text-slate-500 mt-2">{t.seedDesc}</p>
                         </div>
                     </div>
                 </div>
@@ -889,7 +1709,19 @@ const App: React.FC = () => {
                     ) : (
                         <>
                              {/* GENERATE ALL IMAGES BUTTON */}
-                            <div className="mb-6 flex justify-end">
+                            <div className="mb-6 flex justify-end gap-2">
+                                <button
+                                    onClick={checkingAll ? stopBulkGeneration : handleCheckAllConsistency}
+                                    disabled={!checkingAll && (generatingAllImages || !project.output.scenes.some(canCheckConsistency))}
+                                    className="px-4 py-2.5 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded-xl font-bold transition-colors flex items-center gap-2 disabled:opacity-50"
+                                >
+                                    {checkingAll ? <><Square size={14}/> {t.stop}</> : <><ScanFace size={16}/> {t.checkAllConsistency}</>}
+                                </button>
+                                {generatingAllImages && (
+                                    <button onClick={stopBulkGeneration} className="px-4 py-2.5 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded-xl font-bold transition-colors flex items-center gap-2">
+                                        <Square size={14}/> {t.stop}
+                                    </button>
+                                )}
                                 <button 
                                     onClick={handleGenerateAllImages}
                                     disabled={generatingAllImages}
@@ -900,9 +1732,28 @@ const App: React.FC = () => {
                                 </button>
                             </div>
 
+                            <SubtitlePanel
+                                lang={lang}
+                                scenes={project.output.scenes}
+                                settings={project.subtitles || getInitialSubtitles()}
+                                audioExport={project.audioExport || getInitialAudioExport()}
+                                onSettingsChange={handleSubtitleUpdate}
+                                onDownload={downloadFile}
+                                onError={setError}
+                            />
+
+                            <VideoRenderPanel
+                                lang={lang}
+                                scenes={project.output.scenes}
+                                aspectRatio={project.mediaSettings.aspectRatio}
+                                subtitles={project.subtitles || getInitialSubtitles()}
+                                onDownload={downloadFile}
+                                onError={setError}
+                            />
+
                             <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-2 gap-8">
                                 {project.output.scenes.map((scene, idx) => (
-                                    <div key={idx} className="bg-surface border border-slate-700/50 p-5 rounded-3xl flex flex-col group hover:border-slate-600 transition-all">
+                                    <div key={scene.id} className="bg-surface border border-slate-700/50 p-5 rounded-3xl flex flex-col group hover:border-slate-600 transition-all">
                                         <div className="flex justify-between items-start mb-4 px-1">
                                             <div className="flex-1 mr-4">
                                                 <div className="flex items-center gap-2 mb-2">
@@ -910,6 +1761,12 @@ const App: React.FC = () => {
                                                     {scene.characterNames?.map(name => (
                                                         <span key={name} className="text-[10px] px-2 py-1 bg-slate-900 border border-slate-700 rounded-full text-slate-400">{name}</span>
                                                     ))}
+                                                    {scene.imageModel && (
+                                                        <span className="text-[10px] px-2 py-1 bg-slate-900 border border-slate-700 rounded-full text-slate-400 font-mono flex items-center gap-1" dir="ltr"><Cpu size={10}/> {scene.imageModel}</span>
+                                                    )}
+                                                    {isImageStale(scene) && (
+                                                        <StaleBadge label={t.imageStale} title={t.regenerate} onRegenerate={() => handleGenerateImage(idx)} busy={isSceneBusy('image', scene.id)} />
+                                                    )}
                                                 </div>
                                                 <p className="text-xs text-slate-400 line-clamp-2">{scene.imagePrompt}</p>
                                             </div>
@@ -921,18 +1778,57 @@ const App: React.FC = () => {
                                                 <div className="flex justify-between items-center mb-2 px-1">
                                                     <span className="text-xs font-bold text-primary flex items-center gap-1.5"><ImageIcon size={14}/> {t.imagePrompt}</span>
                                                     <div className="flex gap-2">
+                                                        {canUpscale(scene) && (
+                                                            <button
+                                                                onClick={() => handleUpscale(scene)}
+                                                                disabled={upscalingId === scene.id}
+                                                                className="p-2 hover:bg-slate-800 rounded-lg text-slate-400 hover:text-white transition-colors"
+                                                                title={`${t.upscale} (${project.mediaSettings.resolution})`}
+                                                            >
+                                                                {upscalingId === scene.id ? <RefreshCw size={16} className="animate-spin"/> : <Maximize2 size={16}/>}
+                                                            </button>
+                                                        )}
+                                                        {scene.imageUrl && (
+                                                            <button
+                                                                onClick={() => setReframingOf(scene.id)}
+                                                                className="p-2 hover:bg-slate-800 rounded-lg text-slate-400 hover:text-white transition-colors"
+                                                                title={t.reframe}
+                                                            >
+                                                                <Crop size={16}/>
+                                                            </button>
+                                                        )}
+                                                        {scene.imageUrl && (
+                                                            <button
+                                                                onClick={() => setEditingImageOf(scene.id)}
+                                                                disabled={isSceneBusy('image', scene.id) || generatingAllImages}
+                                                                className="p-2 hover:bg-slate-800 rounded-lg text-slate-400 hover:text-white transition-colors"
+                                                                title={t.editImage}
+                                                            >
+                                                                <Brush size={16}/>
+                                                            </button>
+                                                        )}
                                                         <label className="cursor-pointer p-2 hover:bg-slate-800 rounded-lg text-slate-400 hover:text-white transition-colors" title={t.uploadImage}>
                                                             <Upload size={16} />
                                                             <input type="file" accept="image/*" className="hidden" onChange={(e) => handleImageUpload(idx, e)} />
                                                         </label>
                                                         <button 
                                                             onClick={() => handleGenerateImage(idx)} 
-                                                            disabled={imageLoadingIndex === idx || generatingAllImages}
+                                                            disabled={isSceneBusy('image', scene.id) || generatingAllImages}
                                                             className="p-2 hover:bg-slate-800 rounded-lg text-primary hover:text-white transition-colors"
                                                             title={t.generateImage}
                                                         >
-                                                            {imageLoadingIndex === idx ? <div className="animate-spin w-4 h-4 border-2 border-primary border-t-transparent rounded-full"/> : <Sparkles size={16}/>}
+                                                            {isSceneBusy('image', scene.id) ? <div className="animate-spin w-4 h-4 border-2 border-primary border-t-transparent rounded-full"/> : <Sparkles size={16}/>}
                                                         </button>
+                                                        {scene.imageModel && (
+                                                            <button 
+                                                                onClick={() => handleGenerateImage(idx, scene.imageModel)} 
+                                                                disabled={isSceneBusy('image', scene.id) || generatingAllImages}
+                                                                className="p-2 hover:bg-slate-800 rounded-lg text-slate-400 hover:text-white transition-colors"
+                                                                title={`${t.rerunSameModel} (${scene.imageModel})`}
+                                                            >
+                                                                <RotateCcw size={16}/>
+                                                            </button>
+                                                        )}
                                                     </div>
                                                 </div>
                                                 
@@ -954,6 +1850,25 @@ const App: React.FC = () => {
                                                         </div>
                                                     )}
                                                 </div>
+                                                <TakeGallery
+                                                    takes={scene.imageTakes || []}
+                                                    selectedId={scene.selectedTakeId}
+                                                    pinnedSeed={scene.pinnedSeed}
+                                                    lang={lang}
+                                                    onSelect={(take) => handleSelectTake(scene.id, take)}
+                                                    onPinSeed={(seed) => updateScene(scene.id, { pinnedSeed: seed })}
+                                                />
+                                                {canCheckConsistency(scene) && (
+                                                    <ConsistencyReport
+                                                        check={scene.consistency}
+                                                        outdated={!!scene.consistency && scene.consistency.takeId !== scene.selectedTakeId}
+                                                        checking={isSceneBusy('check', scene.id)}
+                                                        regenerating={isSceneBusy('image', scene.id) || generatingAllImages}
+                                                        lang={lang}
+                                                        onCheck={() => handleCheckConsistency(scene)}
+                                                        onRegenerate={() => handleRegenerateWithFixes(scene, scene.consistency!.issues)}
+                                                    />
+                                                )}
                                             </div>
 
                                             {/* Motion Prompt Text Display */}
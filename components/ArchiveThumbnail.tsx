@@ -0,0 +1,49 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { getMediaBlob } from '../services/storageService';
+import { Image as ImageIcon } from 'lucide-react';
+
+interface Props {
+  mediaKey?: string;
+}
+
+// Reads the preview Blob only once the row scrolls into view
+export const ArchiveThumbnail: React.FC<Props> = ({ mediaKey }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [visible, setVisible] = useState(false);
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+      if (!mediaKey || !ref.current) return;
+      const observer = new IntersectionObserver(entries => {
+          if (entries.some(e => e.isIntersecting)) {
+              setVisible(true);
+              observer.disconnect();
+          }
+      });
+      observer.observe(ref.current);
+      return () => observer.disconnect();
+  }, [mediaKey]);
+
+  useEffect(() => {
+      if (!visible || !mediaKey) return;
+      let objectUrl: string | null = null;
+      let cancelled = false;
+      getMediaBlob(mediaKey)
+          .then(blob => {
+              if (!blob || cancelled) return;
+              objectUrl = URL.createObjectURL(blob);
+              setUrl(objectUrl);
+          })
+          .catch(() => {});
+      return () => {
+          cancelled = true;
+          if (objectUrl) URL.revokeObjectURL(objectUrl);
+      };
+  }, [visible, mediaKey]);
+
+  return (
+    <div ref={ref} className="w-16 h-16 shrink-0 rounded-lg bg-slate-800 overflow-hidden flex items-center justify-center text-slate-600">
+        {url ? <img src={url} alt="" className="w-full h-full object-cover" /> : <ImageIcon size={20}/>}
+    </div>
+  );
+};
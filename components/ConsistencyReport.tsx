@@ -0,0 +1,61 @@
+import React from 'react';
+import { TRANSLATIONS, Language, ConsistencyCheck } from '../types';
+import { ScanFace, CheckCircle2, AlertTriangle, RefreshCw, Sparkles } from 'lucide-react';
+
+interface Props {
+  check?: ConsistencyCheck;
+  outdated: boolean; // The check was made on another take than the selected one
+  checking: boolean;
+  regenerating: boolean;
+  lang: Language;
+  onCheck: () => void;
+  onRegenerate: () => void; // Regenerate with the issues as corrective notes
+}
+
+// Result of the vision check of a scene image against its characters' descriptions
+export const ConsistencyReport: React.FC<Props> = ({ check, outdated, checking, regenerating, lang, onCheck, onRegenerate }) => {
+  const t = TRANSLATIONS[lang];
+  const issues = check && !outdated ? check.issues : [];
+
+  return (
+    <div className="mt-2 text-xs">
+      <div className="flex items-center justify-between gap-2 px-1">
+        {checking ? (
+          <span className="flex items-center gap-1.5 text-slate-400"><RefreshCw size={12} className="animate-spin"/> {t.checkConsistency}...</span>
+        ) : !check || outdated ? (
+          <span className="text-slate-500">{check ? t.consistencyOutdated : ''}</span>
+        ) : issues.length === 0 ? (
+          <span className="flex items-center gap-1.5 text-green-400"><CheckCircle2 size={12}/> {t.consistent}</span>
+        ) : (
+          <span className="flex items-center gap-1.5 text-yellow-400 font-bold"><AlertTriangle size={12}/> {t.consistencyIssues} ({issues.length})</span>
+        )}
+        <button
+          onClick={onCheck}
+          disabled={checking}
+          className="flex items-center gap-1 px-2 py-1 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-40 transition-colors"
+          title={check ? `${t.checkConsistency} (${check.model})` : t.checkConsistency}
+        >
+          <ScanFace size={14}/> {t.check}
+        </button>
+      </div>
+
+      {issues.length > 0 && (
+        <div className="mt-1 bg-yellow-500/5 border border-yellow-500/30 rounded-lg p-2 space-y-1">
+          {issues.map((issue, i) => (
+            <p key={i} className="text-slate-300">
+              <span className="font-bold text-yellow-300">{t[`issue_${issue.kind}` as const]}</span>
+              {issue.character && <span className="text-slate-400"> · {issue.character}</span>}: {issue.detail}
+            </p>
+          ))}
+          <button
+            onClick={onRegenerate}
+            disabled={regenerating}
+            className="mt-1 w-full py-1.5 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 rounded-lg font-bold text-slate-200 flex items-center justify-center gap-1.5 transition-colors"
+          >
+            {regenerating ? <RefreshCw size={12} className="animate-spin"/> : <Sparkles size={12}/>} {t.regenerateWithFixes}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Scene, AudioExportSettings, AudioFormat, TRANSLATIONS, Language } from '../types';
+import { stitchStoryAudio, formatTimestamp, timingsToText, SceneTiming } from '../services/audioService';
+import { encodeAudio, availableAudioFormats, AUDIO_EXTENSIONS } from '../services/audioEncoder';
+import { Download, Layers, Clock, FileText, FileAudio, RefreshCw } from 'lucide-react';
+
+interface Props {
+  scenes: Scene[];
+  settings: AudioExportSettings;
+  onSettingsChange: (updates: Partial<AudioExportSettings>) => void;
+  onDownload: (data: string | Blob, filename: string) => void;
+  onError: (message: string) => void;
+  lang: Language;
+}
+
+export const FullNarrationExport: React.FC<Props> = ({ scenes, settings, onSettingsChange, onDownload, onError, lang }) => {
+  const t = TRANSLATIONS[lang];
+  const [timings, setTimings] = useState<SceneTiming[] | null>(null);
+  const [skipped, setSkipped] = useState<number[]>([]);
+  const [encoding, setEncoding] = useState(false);
+
+  const handleExport = async () => {
+      setEncoding(true);
+      try {
+          const result = stitchStoryAudio(scenes, settings);
+          setTimings(result.timings);
+          setSkipped(result.skippedScenes);
+          const blob = await encodeAudio(result, settings.format, settings.bitrate);
+          onDownload(blob, `full-narration.${AUDIO_EXTENSIONS[settings.format]}`);
+      } catch (err: any) {
+          onError(err.message || "Audio export failed.");
+      } finally {
+          setEncoding(false);
+      }
+  };
+
+  const handleDownloadTimings = () => {
+      if (!timings) return;
+      onDownload(new Blob([timingsToText(timings)], { type: 'text/plain' }), 'full-narration-timings.txt');
+  };
+
+  const Slider = ({ label, value, max, onChange }: { label: string; value: number; max: number; onChange: (v: number) => void }) => (
+      <div className="mb-3">
+          <div className="flex justify-between text-xs text-slate-400 mb-1">
+              <span>{label}</span>
+              <span className="text-white font-mono">{value.toFixed(1)}s</span>
+          </div>
+          <input
+              type="range" min="0" max={max} step="0.1"
+              value={value}
+              onChange={(e) => onChange(parseFloat(e.target.value))}
+              className="w-full h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-primary"
+          />
+      </div>
+  );
+
+  return (
+    <div className="mt-6 pt-6 border-t border-slate-700/50">
+        <h3 className="text-slate-400 text-xs font-semibold uppercase tracking-wider mb-3 flex items-center gap-2"><FileAudio size={14}/> {t.downloadFormat}</h3>
+        <div className="flex gap-2 mb-3">
+            {availableAudioFormats().map((format: AudioFormat) => (
+                <button
+                    key={format}
+                    onClick={() => onSettingsChange({ format })}
+                    className={`flex-1 py-1.5 rounded-lg text-xs font-bold uppercase border transition-all ${settings.format === format ? 'bg-primary border-primary text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500'}`}
+                >
+                    {AUDIO_EXTENSIONS[format]}
+                </button>
+            ))}
+        </div>
+        {settings.format !== 'wav' && (
+            <div className="mb-6">
+                <label className="text-xs text-slate-400 mb-1 block">{t.bitrate}</label>
+                <select
+                    value={settings.bitrate}
+                    onChange={(e) => onSettingsChange({ bitrate: parseInt(e.target.value) })}
+                    className="w-full bg-black/40 border border-slate-700 rounded-lg p-2 text-xs text-slate-200 focus:border-primary outline-none"
+                >
+                    {[32, 64, 96, 128].map(kbps => <option key={kbps} value={kbps}>{kbps} kbps</option>)}
+                </select>
+            </div>
+        )}
+
+        <h3 className="text-slate-400 text-xs font-semibold uppercase tracking-wider mb-3 flex items-center gap-2"><Layers size={14}/> {t.fullNarration}</h3>
+
+        <Slider label={t.sceneGap} value={settings.gapSeconds} max={5} onChange={(v) => onSettingsChange({ gapSeconds: v })} />
+        <Slider label={t.fadeIn} value={settings.fadeInSeconds} max={2} onChange={(v) => onSettingsChange({ fadeInSeconds: v })} />
+        <Slider label={t.fadeOut} value={settings.fadeOutSeconds} max={2} onChange={(v) => onSettingsChange({ fadeOutSeconds: v })} />
+
+        <button
+            onClick={handleExport}
+            disabled={encoding || !scenes.some(s => s.audioData)}
+            className="w-full mt-2 flex items-center justify-center gap-2 bg-slate-800 hover:bg-primary hover:text-white py-2.5 rounded-lg text-xs font-bold transition-colors disabled:opacity-50"
+        >
+            {encoding ? <><RefreshCw size={14} className="animate-spin" /> {t.encoding}</> : <><Download size={14} /> {t.downloadFullNarration}</>}
+        </button>
+
+        {timings && (
+            <div className="mt-4 bg-black/30 border border-slate-800 rounded-lg p-3">
+                <div className="flex justify-between items-center mb-2">
+                    <span className="text-[10px] text-slate-400 uppercase font-bold flex items-center gap-1"><Clock size={10}/> {t.sceneTimings}</span>
+                    <button onClick={handleDownloadTimings} className="text-slate-400 hover:text-white" title={t.downloadTimings}>
+                        <FileText size={14}/>
+                    </button>
+                </div>
+                <ul className="space-y-1 font-mono text-[11px] text-slate-300" dir="ltr">
+                    {timings.map(tm => (
+                        <li key={tm.sceneNumber} className="flex justify-between">
+                            <span>Scene {tm.sceneNumber}</span>
+                            <span className="text-slate-500">{formatTimestamp(tm.start)} → {formatTimestamp(tm.end)}</span>
+                        </li>
+                    ))}
+                </ul>
+                {skipped.length > 0 && (
+                    <p className="text-[10px] text-amber-400 mt-2">{t.skippedScenes}: {skipped.join(', ')}</p>
+                )}
+            </div>
+        )}
+    </div>
+  );
+};
@@ -0,0 +1,139 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TRANSLATIONS, Language } from '../types';
+import { Brush, Eraser, X, Wand2 } from 'lucide-react';
+
+interface Props {
+  imageUrl: string;
+  lang: Language;
+  // mask is a PNG data URL at the image's size (white = editable), or undefined when nothing was painted
+  onSubmit: (instruction: string, mask: string | undefined) => void;
+  onClose: () => void;
+}
+
+// Paint the area to change, describe the change; the edit is queued and lands as a new take
+export const ImageEditor: React.FC<Props> = ({ imageUrl, lang, onSubmit, onClose }) => {
+  const t = TRANSLATIONS[lang];
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+  const [brushSize, setBrushSize] = useState(40);
+  const [painted, setPainted] = useState(false);
+  const [instruction, setInstruction] = useState('');
+
+  // The canvas works at the image's natural size so the mask lines up pixel for pixel
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+    };
+    img.src = imageUrl;
+  }, [imageUrl]);
+
+  const toCanvas = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * canvas.width / rect.width,
+      y: (e.clientY - rect.top) * canvas.height / rect.height,
+      scale: canvas.width / rect.width,
+    };
+  };
+
+  const paint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    const { x, y, scale } = toCanvas(e);
+    const from = lastPoint.current || { x, y };
+    ctx.strokeStyle = 'white';
+    ctx.lineWidth = brushSize * scale;
+    ctx.lineCap = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    lastPoint.current = { x, y };
+    setPainted(true);
+  };
+
+  const clearMask = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setPainted(false);
+  };
+
+  // Strokes are white on transparent; the model gets them on black
+  const exportMask = (): string | undefined => {
+    const canvas = canvasRef.current;
+    if (!canvas || !painted) return undefined;
+    const out = document.createElement('canvas');
+    out.width = canvas.width;
+    out.height = canvas.height;
+    const ctx = out.getContext('2d')!;
+    ctx.fillStyle = 'black';
+    ctx.fillRect(0, 0, out.width, out.height);
+    ctx.drawImage(canvas, 0, 0);
+    return out.toDataURL('image/png');
+  };
+
+  const submit = () => {
+    if (!instruction.trim()) return;
+    onSubmit(instruction.trim(), exportMask());
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4" dir={lang === 'ar' ? 'rtl' : 'ltr'}>
+      <div className="bg-surface border border-slate-700 rounded-2xl p-6 w-full max-w-4xl shadow-2xl max-h-[95vh] flex flex-col animate-fadeIn">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold text-white flex items-center gap-2"><Brush size={24} className="text-secondary"/> {t.editImage}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white"><X size={24}/></button>
+        </div>
+
+        <div className="relative flex-1 min-h-0 flex items-center justify-center bg-slate-900 rounded-xl overflow-hidden">
+          <div className="relative max-h-full">
+            <img src={imageUrl} alt="" className="max-h-[60vh] w-auto select-none pointer-events-none" />
+            <canvas
+              ref={canvasRef}
+              className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+              onPointerDown={(e) => { drawing.current = true; lastPoint.current = null; e.currentTarget.setPointerCapture(e.pointerId); paint(e); }}
+              onPointerMove={(e) => { if (drawing.current) paint(e); }}
+              onPointerUp={() => { drawing.current = false; lastPoint.current = null; }}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 mt-4 text-xs text-slate-400">
+          <span className="flex items-center gap-2">
+            <Brush size={14}/> {t.brushSize}
+            <input type="range" min={5} max={120} value={brushSize} onChange={(e) => setBrushSize(parseInt(e.target.value))} className="accent-primary"/>
+          </span>
+          <button onClick={clearMask} disabled={!painted} className="flex items-center gap-1 px-3 py-1.5 bg-slate-800 hover:bg-slate-700 rounded-lg disabled:opacity-40 transition-colors">
+            <Eraser size={12}/> {t.clearMask}
+          </button>
+          <span className="text-slate-500">{painted ? t.maskHint : t.noMaskHint}</span>
+        </div>
+
+        <div className="flex gap-2 mt-4">
+          <input
+            type="text"
+            autoFocus
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') submit(); }}
+            placeholder={t.editInstructionPlaceholder}
+            className="flex-1 bg-slate-900 border border-slate-700 rounded-xl px-4 py-3 text-sm text-white focus:border-primary outline-none"
+          />
+          <button
+            onClick={submit}
+            disabled={!instruction.trim()}
+            className="px-5 py-3 bg-primary hover:bg-primary/90 disabled:opacity-40 rounded-xl text-white text-sm font-bold flex items-center gap-2"
+          >
+            <Wand2 size={16}/> {t.applyEdit}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React from 'react';
+import { TRANSLATIONS, Language } from '../types';
+import { JobInfo } from '../services/jobQueue';
+import { AlertCircle, ListChecks, RefreshCw, X, ChevronDown } from 'lucide-react';
+
+interface Props {
+  jobs: JobInfo[]; // Jobs of the open project
+  lang: Language;
+  onRetry: (id: string) => void;
+  onDismiss: (id: string) => void;
+}
+
+// Floating status of the media queue; stays visible while anything is queued, running or failed
+export const JobQueuePanel: React.FC<Props> = ({ jobs, lang, onRetry, onDismiss }) => {
+  const t = TRANSLATIONS[lang];
+  const [collapsed, setCollapsed] = React.useState(false);
+  const count = (status: JobInfo['status']) => jobs.filter(j => j.status === status).length;
+  const failed = jobs.filter(j => j.status === 'failed');
+  const active = count('queued') + count('running');
+  if (!active && !failed.length) return null;
+
+  return (
+    <div className="fixed bottom-4 end-4 z-50 w-80 bg-surface border border-slate-700 rounded-2xl shadow-2xl animate-fadeIn">
+      <button onClick={() => setCollapsed(c => !c)} className="w-full flex items-center justify-between gap-2 px-4 py-3 text-sm font-bold text-white">
+        <span className="flex items-center gap-2">
+          {active ? <RefreshCw size={16} className="animate-spin text-primary"/> : <ListChecks size={16} className="text-slate-400"/>}
+          {t.jobQueue}
+        </span>
+        <span className="flex items-center gap-2 text-[11px] font-normal text-slate-400">
+          {count('running')} {t.jobRunning} · {count('queued')} {t.jobQueued}
+          {failed.length > 0 && <span className="text-red-400">· {failed.length} {t.jobFailed}</span>}
+          <ChevronDown size={14} className={collapsed ? 'rotate-180' : ''}/>
+        </span>
+      </button>
+
+      {!collapsed && failed.length > 0 && (
+        <div className="border-t border-slate-700/50 p-3 space-y-2 max-h-64 overflow-y-auto custom-scrollbar">
+          {failed.length > 1 && (
+            <button
+              onClick={() => failed.forEach(j => onRetry(j.id))}
+              className="w-full py-1.5 bg-slate-800 hover:bg-slate-700 rounded-lg text-xs font-bold text-slate-200 flex items-center justify-center gap-1.5 transition-colors"
+            >
+              <RefreshCw size={12}/> {t.retryAllFailed}
+            </button>
+          )}
+          {failed.map(job => (
+            <div key={job.id} className="bg-slate-900 border border-red-500/30 rounded-lg p-2 text-xs">
+              <div className="flex items-center justify-between gap-2">
+                <span className="flex items-center gap-1.5 font-bold text-slate-200">
+                  <AlertCircle size={12} className="text-red-400"/> {job.label} · {job.kind === 'audio' ? t.audio : job.kind === 'image' ? t.image : t.check}
+                </span>
+                <span className="flex gap-1">
+                  <button onClick={() => onRetry(job.id)} className="p-1 text-slate-400 hover:text-white hover:bg-slate-800 rounded" title={t.retry}>
+                    <RefreshCw size={12}/>
+                  </button>
+                  <button onClick={() => onDismiss(job.id)} className="p-1 text-slate-400 hover:text-white hover:bg-slate-800 rounded" title={t.dismiss}>
+                    <X size={12}/>
+                  </button>
+                </span>
+              </div>
+              <p className="mt-1 text-slate-500 break-words line-clamp-2" title={job.error}>{job.error}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+import React from 'react';
+import { TRANSLATIONS, Language } from '../types';
+import { CacheStats, CacheEntrySummary, getCacheStats, getRecentCacheEntries, clearGenerationCache } from '../services/storageService';
+import { Database, Trash2 } from 'lucide-react';
+
+interface Props {
+  lang: Language;
+  bypass: boolean;
+  onBypassChange: (bypass: boolean) => void;
+}
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(0)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const RECENT_ENTRIES = 5;
+
+// Size and hit rate of the generation cache, with the bypass switch (settings modal)
+export const MediaCachePanel: React.FC<Props> = ({ lang, bypass, onBypassChange }) => {
+  const t = TRANSLATIONS[lang];
+  const [stats, setStats] = React.useState<CacheStats | null>(null);
+  const [recent, setRecent] = React.useState<CacheEntrySummary[]>([]);
+
+  const refresh = () => Promise.all([getCacheStats(), getRecentCacheEntries(RECENT_ENTRIES)])
+    .then(([s, entries]) => { setStats(s); setRecent(entries); })
+    .catch(e => console.warn("Could not read cache stats", e));
+
+  // Images say which take they are: a pinned seed, or the variation index of an unpinned take
+  const describeEntry = ({ meta }: CacheEntrySummary) => [
+    typeof meta?.kind === 'string' ? meta.kind : '?',
+    typeof meta?.variation === 'number' && `${t.cacheVariation} ${meta.variation + 1}`,
+    typeof meta?.seed === 'number' && `${t.seed} ${meta.seed}`,
+  ].filter(Boolean).join(' · ');
+  React.useEffect(() => { refresh(); }, []);
+
+  const lookups = stats ? stats.hits + stats.misses : 0;
+
+  return (
+    <div>
+      <label className="block text-sm text-slate-400 mb-2 font-semibold flex items-center gap-1.5"><Database size={14}/> {t.mediaCache}</label>
+      <div className="flex items-center justify-between gap-2 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-xs text-slate-300">
+        <span>
+          {stats ? `${stats.entries} ${t.cacheEntries} · ${formatBytes(stats.bytes)} · ${t.cacheHitRate} ${lookups ? Math.round(stats.hits / lookups * 100) : 0}% (${stats.hits}/${lookups})` : '…'}
+        </span>
+        <button
+          onClick={async () => { await clearGenerationCache(); refresh(); }}
+          disabled={!stats?.entries && !lookups}
+          className="flex items-center gap-1 text-slate-400 hover:text-red-400 disabled:opacity-40 transition-colors"
+          title={t.clearCache}
+        >
+          <Trash2 size={12}/> {t.clearCache}
+        </button>
+      </div>
+      {recent.length > 0 && (
+        <ul className="mt-2 space-y-1 text-[10px] font-mono text-slate-500">
+          {recent.map((entry, i) => (
+            <li key={i} className="flex justify-between gap-2">
+              <span>{describeEntry(entry)}</span>
+              <span>{formatBytes(entry.size)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      <label className="flex items-center gap-2 mt-3 text-xs text-slate-300 cursor-pointer">
+        <input type="checkbox" checked={bypass} onChange={(e) => onBypassChange(e.target.checked)} className="accent-primary"/>
+        {t.bypassCache}
+      </label>
+      <p className="text-xs text-slate-500 mt-2">{t.mediaCacheDesc}</p>
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { TRANSLATIONS, Language, AspectRatio, Scene } from '../types';
+import { FocusPoint, REFRAME_ASPECTS, cropWindow } from '../services/reframe';
+import { isReframeOutdated } from '../services/sceneState';
+import { Crop, Expand, Wand2, X, RefreshCw, Download } from 'lucide-react';
+
+export type ReframeMethod = 'auto' | 'crop' | 'outpaint';
+
+interface Props {
+  scene: Scene;
+  projectAspect: AspectRatio;
+  busy: string | null; // Status line while a reframe runs
+  lang: Language;
+  onReframe: (aspect: AspectRatio, method: ReframeMethod, focus?: FocusPoint) => void;
+  onDownload: (data: string | Blob, filename: string) => void;
+  onClose: () => void;
+}
+
+// Derive the scene image for other aspect ratios; the crop window previews what a crop would keep
+export const ReframeEditor: React.FC<Props> = ({ scene, projectAspect, busy, lang, onReframe, onDownload, onClose }) => {
+  const t = TRANSLATIONS[lang];
+  const targets = REFRAME_ASPECTS.filter(a => a !== projectAspect);
+  const [aspect, setAspect] = useState<AspectRatio>(targets[0]);
+  const [focus, setFocus] = useState<FocusPoint | undefined>(scene.reframes?.[targets[0]]?.focus);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+
+  useEffect(() => setFocus(scene.reframes?.[aspect]?.focus), [aspect]);
+
+  const preview = size && cropWindow(size.width, size.height, aspect, focus || { x: 0.5, y: 0.5 });
+
+  const pickFocus = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setFocus({ x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4" dir={lang === 'ar' ? 'rtl' : 'ltr'}>
+      <div className="bg-surface border border-slate-700 rounded-2xl p-6 w-full max-w-4xl shadow-2xl max-h-[95vh] overflow-y-auto custom-scrollbar animate-fadeIn">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold text-white flex items-center gap-2"><Crop size={24} className="text-secondary"/> {t.reframe} · {t.scene} {scene.sceneNumber}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white"><X size={24}/></button>
+        </div>
+
+        <div className="flex items-center justify-center bg-slate-900 rounded-xl overflow-hidden">
+          <div className="relative cursor-crosshair" onClick={pickFocus}>
+            <img
+              src={scene.imageUrl}
+              alt=""
+              className="max-h-[50vh] w-auto select-none"
+              onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+            />
+            {preview && size && (
+              <div
+                className="absolute border-2 border-primary shadow-[0_0_0_9999px_rgba(0,0,0,0.55)] pointer-events-none"
+                style={{
+                  left: `${preview.x / size.width * 100}%`,
+                  top: `${preview.y / size.height * 100}%`,
+                  width: `${preview.width / size.width * 100}%`,
+                  height: `${preview.height / size.height * 100}%`,
+                }}
+              />
+            )}
+            {focus && (
+              <span className="absolute w-3 h-3 -ms-1.5 -mt-1.5 rounded-full bg-primary ring-2 ring-white pointer-events-none" style={{ left: `${focus.x * 100}%`, top: `${focus.y * 100}%` }} />
+            )}
+          </div>
+        </div>
+        <p className="text-xs text-slate-500 mt-2">{t.reframeDesc}</p>
+
+        <div className="flex flex-wrap items-center gap-3 mt-4">
+          <span className="text-xs text-slate-400 font-semibold">{t.targetAspect}</span>
+          {targets.map(a => (
+            <button
+              key={a}
+              onClick={() => setAspect(a)}
+              className={`px-3 py-1.5 rounded-lg text-xs border transition-all ${aspect === a ? 'bg-primary border-primary text-white' : 'bg-black/40 border-slate-700 text-slate-400 hover:border-slate-500'}`}
+            >
+              {a}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap gap-2 mt-4">
+          <button onClick={() => onReframe(aspect, 'auto', focus)} disabled={!!busy} title={t.autoReframeDesc} className="px-4 py-2 bg-primary hover:bg-primary/90 disabled:opacity-40 rounded-lg text-white text-xs font-bold flex items-center gap-1.5">
+            <Wand2 size={14}/> {t.autoReframe}
+          </button>
+          <button onClick={() => onReframe(aspect, 'crop', focus)} disabled={!!busy} className="px-4 py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 rounded-lg text-slate-200 text-xs font-bold flex items-center gap-1.5">
+            <Crop size={14}/> {t.crop}
+          </button>
+          <button onClick={() => onReframe(aspect, 'outpaint')} disabled={!!busy} className="px-4 py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 rounded-lg text-slate-200 text-xs font-bold flex items-center gap-1.5">
+            <Expand size={14}/> {t.outpaint}
+          </button>
+          {busy && <span className="text-xs text-slate-400 flex items-center gap-1.5"><RefreshCw size={12} className="animate-spin"/> {busy}</span>}
+        </div>
+
+        {REFRAME_ASPECTS.some(a => scene.reframes?.[a]) && (
+          <div className="flex flex-wrap gap-4 mt-6 border-t border-slate-700/50 pt-4">
+            {REFRAME_ASPECTS.filter(a => scene.reframes?.[a]).map(a => {
+              const reframe = scene.reframes![a]!;
+              return (
+                <div key={a} className="text-[10px] text-slate-400">
+                  <div className="relative group/reframe">
+                    <img src={reframe.url} alt={a} className="h-28 w-auto rounded-lg border border-slate-700" />
+                    <button
+                      onClick={() => onDownload(reframe.url, `scene-${scene.sceneNumber}-${a.replace(':', 'x')}.png`)}
+                      className="absolute top-1 end-1 p-1 bg-black/60 text-white rounded opacity-0 group-hover/reframe:opacity-100 transition-opacity"
+                    >
+                      <Download size={12}/>
+                    </button>
+                  </div>
+                  <span className="font-mono">{a} · {reframe.method === 'crop' ? t.crop : t.outpaint}</span>
+                  {a === projectAspect && <span> · {t.projectAspect}</span>}
+                  {isReframeOutdated(scene, a) && <span className="text-yellow-400"> · {t.reframeOutdated}</span>}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
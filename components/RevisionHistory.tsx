@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { Project, TRANSLATIONS, Language } from '../types';
+import { listRevisions, loadRevision, RevisionSummary } from '../services/storageService';
+import { diffProjects, ProjectDiff, SceneField } from '../services/projectDiff';
+import { History, X, GitCompare, RotateCcw, RefreshCw } from 'lucide-react';
+
+interface Props {
+  project: Project;
+  onRestore: (revision: Project) => void;
+  onClose: () => void;
+  onError: (message: string) => void;
+  lang: Language;
+}
+
+export const RevisionHistory: React.FC<Props> = ({ project, onRestore, onClose, onError, lang }) => {
+  const t = TRANSLATIONS[lang];
+  const [revisions, setRevisions] = useState<RevisionSummary[] | null>(null);
+  const [selected, setSelected] = useState<{ id: string; project: Project; diff: ProjectDiff } | null>(null);
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+
+  useEffect(() => {
+      listRevisions(project.id)
+          .then(setRevisions)
+          .catch(err => { onError(err.message || "Could not load revisions."); setRevisions([]); });
+  }, [project.id]);
+
+  const fieldLabels: Record<SceneField, string> = {
+      narrative: t.narrativeText,
+      imagePrompt: t.imagePrompt,
+      motionPrompt: t.motionPrompt,
+      image: t.image,
+      audio: t.audio,
+  };
+
+  const withRevision = async (id: string, then: (revision: Project) => void) => {
+      setLoadingId(id);
+      try {
+          then(selected?.id === id ? selected.project : await loadRevision(id));
+      } catch (err: any) {
+          onError(err.message || "Could not load revision.");
+      } finally {
+          setLoadingId(null);
+      }
+  };
+
+  const handleCompare = (id: string) => withRevision(id, revision =>
+      setSelected({ id, project: revision, diff: diffProjects(revision, project) }));
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4" dir={lang === 'ar' ? 'rtl' : 'ltr'}>
+        <div className="bg-surface border border-slate-700 rounded-2xl p-6 w-full max-w-3xl shadow-2xl h-[80vh] flex flex-col animate-fadeIn">
+            <div className="flex justify-between items-center mb-6">
+                <h2 className="text-2xl font-bold text-white flex items-center gap-2"><History size={24} className="text-secondary"/> {t.revisions}</h2>
+                <button onClick={onClose} className="text-slate-400 hover:text-white"><X size={24}/></button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto space-y-3 pr-2 custom-scrollbar">
+                {revisions === null ? (
+                    <div className="text-center text-slate-500 py-20"><RefreshCw className="animate-spin inline" size={20}/></div>
+                ) : revisions.length === 0 ? (
+                    <div className="text-center text-slate-500 py-20">{t.noRevisions}</div>
+                ) : (
+                    revisions.map(r => (
+                        <div key={r.id} className={`bg-slate-900 border p-4 rounded-xl transition-colors ${selected?.id === r.id ? 'border-primary/50' : 'border-slate-800 hover:border-slate-600'}`}>
+                            <div className="flex items-center justify-between">
+                                <div className="flex-1">
+                                    <h3 className="font-bold text-white mb-1">{t[`reason_${r.reason}` as keyof typeof t]}</h3>
+                                    <p className="text-xs text-slate-400">
+                                        {new Date(r.createdAt).toLocaleString()} • {r.title || "Untitled"} • {r.sceneCount} Scenes
+                                    </p>
+                                </div>
+                                <div className="flex gap-2">
+                                    <button onClick={() => handleCompare(r.id)} disabled={loadingId !== null} className="p-2 hover:bg-secondary/20 text-secondary rounded-lg disabled:opacity-50" title={t.compare}>
+                                        {loadingId === r.id ? <RefreshCw size={18} className="animate-spin"/> : <GitCompare size={18}/>}
+                                    </button>
+                                    <button onClick={() => withRevision(r.id, onRestore)} disabled={loadingId !== null} className="p-2 hover:bg-primary/20 text-primary rounded-lg disabled:opacity-50" title={t.restore}>
+                                        <RotateCcw size={18}/>
+                                    </button>
+                                </div>
+                            </div>
+
+                            {selected?.id === r.id && (
+                                <div className="mt-4 pt-4 border-t border-slate-800 space-y-3 text-xs">
+                                    {!selected.diff.title && !selected.diff.charactersChanged && selected.diff.scenes.length === 0 && (
+                                        <p className="text-slate-500">{t.noChanges}</p>
+                                    )}
+                                    {selected.diff.title && (
+                                        <p className="text-slate-300">
+                                            <span className="line-through text-red-300/80">{selected.diff.title.before}</span> → <span className="text-emerald-300">{selected.diff.title.after}</span>
+                                        </p>
+                                    )}
+                                    {selected.diff.charactersChanged && (
+                                        <p className="text-amber-300">{t.characters}</p>
+                                    )}
+                                    {selected.diff.scenes.map(d => (
+                                        <div key={`${d.status}-${d.sceneNumber}`} className="bg-black/30 rounded-lg p-3">
+                                            <div className="flex items-center gap-2 mb-2">
+                                                <span className="font-bold text-white">Scene {d.sceneNumber}</span>
+                                                {d.status === 'moved' && (
+                                                    <span className="px-2 py-0.5 rounded text-[10px] bg-sky-500/20 text-sky-300">{t.movedFrom} {d.fromSceneNumber}</span>
+                                                )}
+                                                {d.status === 'changed' || d.status === 'moved'
+                                                    ? d.fields.map(f => <span key={f} className="px-2 py-0.5 rounded bg-slate-800 text-slate-300 text-[10px]">{fieldLabels[f]}</span>)
+                                                    : <span className={`px-2 py-0.5 rounded text-[10px] ${d.status === 'added' ? 'bg-emerald-500/20 text-emerald-300' : 'bg-red-500/20 text-red-300'}`}>{t[d.status]}</span>}
+                                            </div>
+                                            {d.before !== undefined && (d.status === 'removed' || d.fields.includes('narrative')) && (
+                                                <p className="text-red-300/80 line-through mb-1" dir="auto">{d.before}</p>
+                                            )}
+                                            {d.after !== undefined && (d.status === 'added' || d.fields.includes('narrative')) && (
+                                                <p className="text-emerald-300" dir="auto">{d.after}</p>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    ))
+                )}
+            </div>
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,21 @@
+import React from 'react';
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+
+interface Props {
+  label: string;
+  title?: string;
+  onRegenerate?: () => void;
+  busy?: boolean;
+}
+
+// Marks media generated from text that has since been edited; clicking regenerates just that media
+export const StaleBadge: React.FC<Props> = ({ label, title, onRegenerate, busy }) => (
+  <button
+      onClick={onRegenerate}
+      disabled={!onRegenerate || busy}
+      className="text-[10px] px-2 py-1 bg-amber-500/10 border border-amber-500/40 rounded-full text-amber-300 font-bold flex items-center gap-1 hover:bg-amber-500/20 transition-colors disabled:cursor-default"
+      title={title}
+  >
+      {busy ? <RefreshCw size={10} className="animate-spin"/> : <AlertTriangle size={10}/>} {label}
+  </button>
+);
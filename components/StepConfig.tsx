@@ -2,7 +2,11 @@ import React, { useState } from 'react';
 import { StoryConfig, TRANSLATIONS, Language, VoiceConfig, Character } from '../types';
 import { Button } from './Button';
 import { Sparkles, Users, Globe, BookOpen, Clock, Zap, Wand2, Mic, Volume2, Plus, Trash2, Camera, User, Image as ImageIcon, CheckCircle2 } from 'lucide-react';
-import { generateStoryIdeas, generateCharacterProfiles, analyzeImage } from '../services/geminiService';
+import { generateStoryIdeas, generateCharacterProfiles, analyzeImage, RequestOptions } from '../services/geminiService';
+
+// Chaptered generation range; single-shot generation stays at 1-10 scenes
+const LONG_FORM_MIN_SCENES = 10;
+const LONG_FORM_MAX_SCENES = 60;
 
 interface Props {
   config: StoryConfig;
@@ -11,9 +15,10 @@ interface Props {
   onVoiceUpdate: (updates: Partial<VoiceConfig>) => void;
   onGenerate: () => void;
   lang: Language;
+  requestOptions?: RequestOptions;
 }
 
-export const StepConfig: React.FC<Props> = ({ config, voiceConfig, onUpdate, onVoiceUpdate, onGenerate, lang }) => {
+export const StepConfig: React.FC<Props> = ({ config, voiceConfig, onUpdate, onVoiceUpdate, onGenerate, lang, requestOptions }) => {
   const t = TRANSLATIONS[lang];
   const [section, setSection] = useState<'core' | 'style' | 'characters' | 'world'>('core');
   const [isSuggesting, setIsSuggesting] = useState(false);
@@ -24,7 +29,7 @@ export const StepConfig: React.FC<Props> = ({ config, voiceConfig, onUpdate, onV
   const handleSuggest = async () => {
       setIsSuggesting(true);
       try {
-          const suggestions = await generateStoryIdeas(config.category || 'General', lang);
+          const suggestions = await generateStoryIdeas(config.category || 'General', lang, requestOptions);
           onUpdate(suggestions);
       } catch (e) {
           console.error(e);
@@ -62,7 +67,7 @@ export const StepConfig: React.FC<Props> = ({ config, voiceConfig, onUpdate, onV
       }
       setGeneratingChars(true);
       try {
-          const chars = await generateCharacterProfiles(config.premise, config.setting, config.characterCount, lang);
+          const chars = await generateCharacterProfiles(config.premise, config.setting, config.characterCount, lang, requestOptions);
           onUpdate({ characters: chars });
       } catch (e) {
           console.error(e);
@@ -85,7 +90,7 @@ export const StepConfig: React.FC<Props> = ({ config, voiceConfig, onUpdate, onV
           // Trigger analysis
           setAnalyzingImgId(id);
           try {
-              const description = await analyzeImage(base64, lang);
+              const description = await analyzeImage(base64, lang, requestOptions);
               updateCharacter(id, { description });
           } catch (err) {
               console.error(err);
@@ -198,11 +203,25 @@ export const StepConfig: React.FC<Props> = ({ config, voiceConfig, onUpdate, onV
                     <span className="text-primary font-bold bg-primary/10 px-2 py-0.5 rounded">{config.sceneCount}</span>
                 </div>
                 <input 
-                    type="range" min="1" max="10" step="1"
+                    type="range" min={config.longForm ? LONG_FORM_MIN_SCENES : 1} max={config.longForm ? LONG_FORM_MAX_SCENES : 10} step={config.longForm ? 5 : 1}
                     value={config.sceneCount}
                     onChange={(e) => onUpdate({ sceneCount: parseInt(e.target.value) })}
                     className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-primary"
                 />
+                <label className="flex items-start gap-2 mt-3 text-xs text-slate-300 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={!!config.longForm}
+                        onChange={(e) => onUpdate(e.target.checked
+                            ? { longForm: true, sceneCount: Math.max(LONG_FORM_MIN_SCENES, config.sceneCount) }
+                            : { longForm: false, sceneCount: Math.min(10, config.sceneCount) })}
+                        className="accent-primary mt-0.5"
+                    />
+                    <span>
+                        {t.longForm}
+                        <span className="block text-slate-500">{t.longFormDesc}</span>
+                    </span>
+                </label>
             </div>
           </div>
         )}
@@ -318,6 +337,19 @@ export const StepConfig: React.FC<Props> = ({ config, voiceConfig, onUpdate, onV
                                         className="w-full bg-slate-800 border-b border-slate-600 pb-1 text-white font-bold text-lg focus:border-primary outline-none focus:bg-slate-800/50"
                                       />
                                    </div>
+                                   <div className="w-32">
+                                       <label className="block text-[10px] text-slate-400 uppercase font-bold mb-1">{t.characterVoice}</label>
+                                       <select
+                                            value={char.voiceType || ''}
+                                            onChange={(e) => updateCharacter(char.id, { voiceType: (e.target.value || undefined) as Character['voiceType'] })}
+                                            className="w-full bg-slate-800 border-b border-slate-600 pb-1 text-xs text-slate-300 focus:border-primary outline-none"
+                                        >
+                                            <option value="">{t.narratorVoice}</option>
+                                            {['man_deep', 'man_soft', 'man_drama', 'woman', 'child'].map(v => (
+                                                <option key={v} value={v}>{(t as any)[v]}</option>
+                                            ))}
+                                        </select>
+                                   </div>
                                    <div className="w-32">
                                        <label className="block text-[10px] text-slate-400 uppercase font-bold mb-1">Role</label>
                                        <select
@@ -338,6 +370,19 @@ export const StepConfig: React.FC<Props> = ({ config, voiceConfig, onUpdate, onV
                                        {analyzingImgId === char.id && <span className="text-[10px] text-primary flex items-center gap-1"><Wand2 size={10} className="animate-spin"/> Analyzing visual signature...</span>}
                                        {char.image && !analyzingImgId && char.description && <span className="text-[10px] text-green-400 flex items-center gap-1"><CheckCircle2 size={10}/> Visual Ref Active</span>}
                                    </div>
+                                   {char.image && (
+                                       <div className="flex items-center gap-2 mb-2">
+                                           <span className="text-[10px] text-slate-400 uppercase font-bold">{t.conditioning}</span>
+                                           {(['text', 'reference'] as const).map(mode => (
+                                               <OptionChip
+                                                   key={mode}
+                                                   label={mode === 'text' ? t.conditioningText : t.conditioningReference}
+                                                   selected={(char.conditioning ?? 'reference') === mode}
+                                                   onClick={() => updateCharacter(char.id, { conditioning: mode })}
+                                               />
+                                           ))}
+                                       </div>
+                                   )}
                                    <textarea 
                                         value={char.description}
                                         onChange={(e) => updateCharacter(char.id, { description: e.target.value })}
@@ -1,13 +1,18 @@
 import React from 'react';
-import { Wand2 } from 'lucide-react';
-import { TRANSLATIONS, Language } from '../types';
+import { Wand2, CheckCircle2, Circle, RefreshCw, Square } from 'lucide-react';
+import { TRANSLATIONS, Language, StoryDraft } from '../types';
 
 interface Props {
   lang: Language;
+  // Chaptered runs: null while the outline is being written
+  draft?: StoryDraft | null;
+  chaptered?: boolean;
+  onCancel?: () => void;
 }
 
-export const StepLoading: React.FC<Props> = ({ lang }) => {
+export const StepLoading: React.FC<Props> = ({ lang, draft, chaptered, onCancel }) => {
   const t = TRANSLATIONS[lang];
+  const chapters = draft?.outline.chapters || [];
   return (
     <div className="flex flex-col items-center justify-center min-h-[50vh] animate-fadeIn">
       <div className="relative">
@@ -16,19 +21,47 @@ export const StepLoading: React.FC<Props> = ({ lang }) => {
           <Wand2 size={48} className="animate-bounce" />
         </div>
       </div>
-      
+
       <h2 className="text-3xl font-bold mt-8 text-white text-center">
-        {t.loadingTitle}
+        {draft ? draft.outline.title : t.loadingTitle}
       </h2>
       <p className="text-slate-400 mt-2 text-center max-w-md">
-        {t.loadingSubtitle}
+        {chaptered
+            ? draft ? `${t.writingChapter} ${Math.min(draft.completedChapters + 1, chapters.length)} / ${chapters.length}` : t.writingOutline
+            : t.loadingSubtitle}
       </p>
-      
+
+      {chapters.length > 0 && (
+        <ol className="mt-6 w-full max-w-md space-y-2">
+          {chapters.map((chapter, i) => {
+            const done = i < draft!.completedChapters;
+            const active = i === draft!.completedChapters;
+            return (
+              <li key={i} className={`flex items-start gap-3 text-sm p-3 rounded-xl border ${active ? 'border-primary/50 bg-primary/5' : 'border-slate-800'}`}>
+                <span className="mt-0.5">
+                  {done ? <CheckCircle2 size={16} className="text-green-400"/> : active ? <RefreshCw size={16} className="text-primary animate-spin"/> : <Circle size={16} className="text-slate-600"/>}
+                </span>
+                <span className="flex-1">
+                  <span className={`font-bold ${done || active ? 'text-white' : 'text-slate-500'}`}>{i + 1}. {chapter.title}</span>
+                  <span className="block text-xs text-slate-500">{t.act} {chapter.act} · {chapter.sceneCount} {t.scenesLabel}</span>
+                </span>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
       <div className="flex gap-2 mt-6">
         <span className="w-3 h-3 bg-primary rounded-full animate-bounce [animation-delay:-0.3s]"></span>
         <span className="w-3 h-3 bg-purple-500 rounded-full animate-bounce [animation-delay:-0.15s]"></span>
         <span className="w-3 h-3 bg-pink-500 rounded-full animate-bounce"></span>
       </div>
+
+      {onCancel && (
+        <button onClick={onCancel} className="mt-6 px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-xs font-bold flex items-center gap-1.5 transition-colors">
+          <Square size={12}/> {t.cancel}
+        </button>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
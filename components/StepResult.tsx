@@ -1,15 +1,85 @@
 import React from 'react';
-import { StoryOutput, Scene, TRANSLATIONS, Language } from '../types';
-import { Copy, Check, Video, Image as ImageIcon, BookOpen, Quote, Users } from 'lucide-react';
+import { StoryOutput, Scene, TRANSLATIONS, Language, NARRATOR, NarrativeSegment } from '../types';
+import { SceneTextEdit, isAudioStale, isImageStale } from '../services/sceneState';
+import { narrativeFromSegments } from '../services/geminiService';
+import { StaleBadge } from './StaleBadge';
+import { Copy, Check, Video, Image as ImageIcon, BookOpen, Quote, Users, Pencil, Undo2, X, Save, RefreshCw, GripVertical, Plus, Trash2, Wand2, Square } from 'lucide-react';
 
 interface Props {
   data: StoryOutput;
   lang: Language;
+  // Editing is enabled when onSceneEdit is given
+  onSceneEdit?: (sceneIndex: number, updates: SceneTextEdit) => void;
+  onUndo?: () => void;
+  canUndo?: boolean;
+  onRegenerateAudio?: (sceneIndex: number) => void;
+  onRegenerateImage?: (sceneIndex: number) => void;
+  onRegenerateStale?: () => void;
+  onStopBulk?: () => void;
+  isAudioBusy?: (sceneId: string) => boolean;
+  isImageBusy?: (sceneId: string) => boolean;
+  regeneratingStale?: boolean;
+  // Structure editing: rewrite, insert, delete, drag to reorder
+  onRegenerateScene?: (sceneIndex: number) => void;
+  onInsertScene?: (position: number) => void;
+  onDeleteScene?: (sceneIndex: number) => void;
+  onMoveScene?: (from: number, to: number) => void;
+  rewritingId?: string | null; // Scene being rewritten
+  insertingAt?: number | null; // Position a new scene is being written for
+  canRestructure?: boolean;
 }
 
-const SceneCard: React.FC<{ scene: Scene; lang: Language; t: any }> = ({ scene, lang, t }) => {
+interface SceneCardProps {
+  scene: Scene;
+  lang: Language;
+  t: typeof TRANSLATIONS['en'];
+  onEdit?: (updates: SceneTextEdit) => void;
+  onRegenerateAudio?: () => void;
+  onRegenerateImage?: () => void;
+  audioBusy?: boolean;
+  imageBusy?: boolean;
+  onRegenerateScene?: () => void;
+  onInsertAfter?: () => void;
+  onDelete?: () => void;
+  onGripDown?: () => void;
+  rewriting?: boolean;
+  locked?: boolean; // Structure edits disabled while media or another scene is generating
+}
+
+const SceneCard: React.FC<SceneCardProps> = ({
+  scene, lang, t, onEdit, onRegenerateAudio, onRegenerateImage, audioBusy, imageBusy,
+  onRegenerateScene, onInsertAfter, onDelete, onGripDown, rewriting, locked
+}) => {
   const [copiedImage, setCopiedImage] = React.useState(false);
   const [copiedMotion, setCopiedMotion] = React.useState(false);
+  const [draft, setDraft] = React.useState<{ segments: NarrativeSegment[]; narrative: string; imagePrompt: string; motionPrompt: string } | null>(null);
+
+  const startEditing = () => setDraft({
+      segments: scene.segments?.map(seg => ({ ...seg })) || [],
+      narrative: scene.narrative,
+      imagePrompt: scene.imagePrompt,
+      motionPrompt: scene.motionPrompt,
+  });
+
+  // Only changed fields are sent, so unchanged media isn't flagged stale
+  const saveDraft = () => {
+      if (!draft || !onEdit) return;
+      const updates: SceneTextEdit = {};
+      if (draft.segments.length) {
+          if (draft.segments.some((seg, i) => seg.text !== scene.segments?.[i]?.text)) {
+              updates.segments = draft.segments;
+              updates.narrative = narrativeFromSegments(draft.segments);
+          }
+      } else if (draft.narrative !== scene.narrative) {
+          updates.narrative = draft.narrative;
+      }
+      if (draft.imagePrompt !== scene.imagePrompt) updates.imagePrompt = draft.imagePrompt;
+      if (draft.motionPrompt !== scene.motionPrompt) updates.motionPrompt = draft.motionPrompt;
+      if (Object.keys(updates).length) onEdit(updates);
+      setDraft(null);
+  };
+
+  const fieldClass = "w-full bg-black/40 border border-slate-700 rounded-lg p-2 text-sm text-slate-200 focus:border-primary outline-none resize-y";
 
   const copyToClipboard = (text: string, type: 'image' | 'motion') => {
     navigator.clipboard.writeText(text);
@@ -25,22 +95,109 @@ const SceneCard: React.FC<{ scene: Scene; lang: Language; t: any }> = ({ scene,
   return (
     <div className="bg-surface border border-slate-700/50 rounded-2xl p-5 hover:border-primary/50 transition-colors flex flex-col h-full shadow-lg">
       <div className="flex items-center justify-between mb-3 border-b border-slate-700/50 pb-3">
-        <span className="bg-slate-800 text-white px-3 py-1 rounded-full text-xs font-bold border border-slate-700">
-          Scene {scene.sceneNumber}
-        </span>
-        <div className="flex gap-1">
+        <div className="flex items-center gap-1">
+          {onGripDown && (
+            <span
+              onMouseDown={onGripDown}
+              className={`p-1 text-slate-500 rounded ${locked ? 'opacity-40' : 'cursor-grab hover:text-white'}`}
+              title={t.dragToReorder}
+            >
+              <GripVertical size={14}/>
+            </span>
+          )}
+          <span className="bg-slate-800 text-white px-3 py-1 rounded-full text-xs font-bold border border-slate-700">
+            Scene {scene.sceneNumber}
+          </span>
+        </div>
+        <div className="flex gap-1 items-center flex-wrap justify-end">
+             {isAudioStale(scene) && <StaleBadge label={t.audioStale} title={t.regenerate} onRegenerate={onRegenerateAudio} busy={audioBusy} />}
+             {isImageStale(scene) && <StaleBadge label={t.imageStale} title={t.regenerate} onRegenerate={onRegenerateImage} busy={imageBusy} />}
              {scene.characterNames?.map(name => (
                  <span key={name} className="flex items-center gap-1 text-[10px] px-2 py-0.5 bg-slate-900 border border-slate-700 rounded-full text-slate-400">
                     <Users size={10}/> {name}
                  </span>
              ))}
+             {onEdit && !draft && (
+                 <button onClick={startEditing} disabled={rewriting} className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-40" title={t.edit}>
+                     <Pencil size={14}/>
+                 </button>
+             )}
+             {onRegenerateScene && !draft && (
+                 <button onClick={onRegenerateScene} disabled={locked} className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-40" title={t.regenerateScene}>
+                     {rewriting ? <RefreshCw size={14} className="animate-spin"/> : <Wand2 size={14}/>}
+                 </button>
+             )}
+             {onInsertAfter && !draft && (
+                 <button onClick={onInsertAfter} disabled={locked} className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-40" title={t.insertSceneBelow}>
+                     <Plus size={14}/>
+                 </button>
+             )}
+             {onDelete && !draft && (
+                 <button onClick={onDelete} disabled={locked} className="p-1.5 text-slate-400 hover:text-red-400 hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-40" title={t.deleteScene}>
+                     <Trash2 size={14}/>
+                 </button>
+             )}
         </div>
       </div>
-      
+
+      {draft ? (
+        <div className="space-y-3 flex-grow">
+          {draft.segments.length ? (
+            draft.segments.map((seg, i) => (
+              <div key={i}>
+                <label className="block text-[10px] font-bold uppercase tracking-wider text-accent mb-1">{seg.speaker === NARRATOR ? t.narrator : seg.speaker}</label>
+                <textarea
+                  value={seg.text}
+                  onChange={(e) => setDraft(d => d && { ...d, segments: d.segments.map((s, j) => j === i ? { ...s, text: e.target.value } : s) })}
+                  rows={2}
+                  className={fieldClass}
+                  dir="auto"
+                />
+              </div>
+            ))
+          ) : (
+            <textarea
+              value={draft.narrative}
+              onChange={(e) => setDraft(d => d && { ...d, narrative: e.target.value })}
+              rows={4}
+              className={fieldClass}
+              dir="auto"
+            />
+          )}
+          <div dir="ltr">
+            <label className="flex items-center gap-2 mb-1 text-primary font-bold text-xs uppercase tracking-wider"><ImageIcon size={12} /> {t.imagePrompt}</label>
+            <textarea value={draft.imagePrompt} onChange={(e) => setDraft(d => d && { ...d, imagePrompt: e.target.value })} rows={3} className={`${fieldClass} font-mono text-xs`} />
+          </div>
+          <div dir="ltr">
+            <label className="flex items-center gap-2 mb-1 text-accent font-bold text-xs uppercase tracking-wider"><Video size={12} /> {t.motionPrompt}</label>
+            <textarea value={draft.motionPrompt} onChange={(e) => setDraft(d => d && { ...d, motionPrompt: e.target.value })} rows={2} className={`${fieldClass} font-mono text-xs`} />
+          </div>
+          <div className="flex gap-2 justify-end">
+            <button onClick={() => setDraft(null)} className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-xs font-bold flex items-center gap-1.5 transition-colors">
+              <X size={14}/> {t.cancel}
+            </button>
+            <button onClick={saveDraft} className="px-3 py-1.5 bg-primary hover:bg-primary/80 text-white rounded-lg text-xs font-bold flex items-center gap-1.5 transition-colors">
+              <Save size={14}/> {t.saveChanges}
+            </button>
+          </div>
+        </div>
+      ) : (
+      <>
       <div className="mb-4 flex-grow">
-        <p className="text-md text-slate-200 leading-relaxed font-light" dir="auto">
-          {scene.narrative}
-        </p>
+        {scene.segments?.length ? (
+          <div className="space-y-2">
+            {scene.segments.map((seg, i) => (
+              <p key={i} className={`text-md leading-relaxed font-light ${seg.speaker === NARRATOR ? 'text-slate-200' : 'text-slate-100 ps-3 border-s-2 border-accent/60'}`} dir="auto">
+                {seg.speaker !== NARRATOR && <span className="block text-[10px] font-bold uppercase tracking-wider text-accent mb-0.5">{seg.speaker}</span>}
+                {seg.text}
+              </p>
+            ))}
+          </div>
+        ) : (
+          <p className="text-md text-slate-200 leading-relaxed font-light" dir="auto">
+            {scene.narrative}
+          </p>
+        )}
       </div>
 
       <div className="space-y-3" dir="ltr">
@@ -78,12 +235,29 @@ const SceneCard: React.FC<{ scene: Scene; lang: Language; t: any }> = ({ scene,
           </button>
         </div>
       </div>
+      </>
+      )}
     </div>
   );
 };
 
-export const StepResult: React.FC<Props> = ({ data, lang }) => {
+export const StepResult: React.FC<Props> = ({
+  data, lang, onSceneEdit, onUndo, canUndo, onRegenerateAudio, onRegenerateImage, onRegenerateStale, onStopBulk,
+  isAudioBusy, isImageBusy, regeneratingStale,
+  onRegenerateScene, onInsertScene, onDeleteScene, onMoveScene, rewritingId, insertingAt, canRestructure = true
+}) => {
   const t = TRANSLATIONS[lang];
+  const staleCount = data.scenes.filter(s => isAudioStale(s) || isImageStale(s)).length;
+  // Cards only become draggable from the grip, so text in them stays selectable
+  const [armedIndex, setArmedIndex] = React.useState<number | null>(null);
+  const [dragIndex, setDragIndex] = React.useState<number | null>(null);
+  const [dropIndex, setDropIndex] = React.useState<number | null>(null);
+
+  const endDrag = () => {
+      setArmedIndex(null);
+      setDragIndex(null);
+      setDropIndex(null);
+  };
   return (
     <div className="w-full max-w-7xl mx-auto animate-fadeIn pb-20">
       
@@ -108,15 +282,84 @@ export const StepResult: React.FC<Props> = ({ data, lang }) => {
                         <span>Scenes</span>
                         <span className="text-white font-bold">{data.scenes.length}</span>
                       </div>
-                      {/* Placeholder for future export buttons if needed */}
+                      {onUndo && (
+                        <button
+                          onClick={onUndo}
+                          disabled={!canUndo}
+                          className="w-full mt-3 flex items-center justify-center gap-2 bg-slate-800 hover:bg-slate-700 py-2 rounded-lg text-xs font-bold text-slate-300 transition-colors disabled:opacity-40"
+                        >
+                          <Undo2 size={14}/> {t.undoEdit}
+                        </button>
+                      )}
+                      {onRegenerateStale && staleCount > 0 && (
+                        <button
+                          onClick={onRegenerateStale}
+                          disabled={regeneratingStale}
+                          className="w-full mt-2 flex items-center justify-center gap-2 bg-amber-500/10 border border-amber-500/40 hover:bg-amber-500/20 py-2 rounded-lg text-xs font-bold text-amber-300 transition-colors disabled:opacity-50"
+                        >
+                          <RefreshCw size={14} className={regeneratingStale ? 'animate-spin' : ''}/> {t.regenerateStale} ({staleCount})
+                        </button>
+                      )}
+                      {onStopBulk && regeneratingStale && (
+                        <button
+                          onClick={onStopBulk}
+                          className="w-full mt-2 flex items-center justify-center gap-2 bg-slate-800 hover:bg-slate-700 py-2 rounded-lg text-xs font-bold text-slate-300 transition-colors"
+                        >
+                          <Square size={12}/> {t.stop}
+                        </button>
+                      )}
                   </div>
               </div>
           </div>
 
           {/* Right Column: Scenes Grid */}
           <div className="grid grid-cols-1 gap-6">
-              {data.scenes.map((scene) => (
-                <SceneCard key={scene.sceneNumber} scene={scene} lang={lang} t={t} />
+              {onInsertScene && (insertingAt === 0 ? (
+                <div className="border border-dashed border-slate-700 rounded-2xl p-6 flex items-center justify-center gap-2 text-xs text-slate-400">
+                  <RefreshCw size={14} className="animate-spin"/> {t.writingScene}
+                </div>
+              ) : (
+                <button
+                  onClick={() => onInsertScene(0)}
+                  disabled={!canRestructure}
+                  className="flex items-center justify-center gap-2 border border-dashed border-slate-700 hover:border-slate-500 rounded-2xl py-2 text-xs text-slate-400 hover:text-white transition-colors disabled:opacity-40"
+                >
+                  <Plus size={14}/> {t.insertSceneFirst}
+                </button>
+              ))}
+              {data.scenes.map((scene, idx) => (
+                <div
+                  key={scene.id}
+                  draggable={armedIndex === idx && canRestructure}
+                  onDragStart={(e) => { e.dataTransfer.effectAllowed = 'move'; setDragIndex(idx); }}
+                  onDragOver={(e) => { if (dragIndex === null) return; e.preventDefault(); setDropIndex(idx); }}
+                  onDrop={(e) => { e.preventDefault(); if (dragIndex !== null && onMoveScene) onMoveScene(dragIndex, idx); endDrag(); }}
+                  onDragEnd={endDrag}
+                  onMouseUp={() => dragIndex === null && setArmedIndex(null)}
+                  className={`rounded-2xl transition-all ${dragIndex === idx ? 'opacity-40' : ''} ${dropIndex === idx && dragIndex !== idx ? 'ring-2 ring-primary' : ''}`}
+                >
+                  <SceneCard
+                    scene={scene}
+                    lang={lang}
+                    t={t}
+                    onEdit={onSceneEdit && ((updates) => onSceneEdit(idx, updates))}
+                    onRegenerateAudio={onRegenerateAudio && (() => onRegenerateAudio(idx))}
+                    onRegenerateImage={onRegenerateImage && (() => onRegenerateImage(idx))}
+                    audioBusy={isAudioBusy?.(scene.id)}
+                    imageBusy={isImageBusy?.(scene.id)}
+                    onRegenerateScene={onRegenerateScene && (() => onRegenerateScene(idx))}
+                    onInsertAfter={onInsertScene && (() => onInsertScene(idx + 1))}
+                    onDelete={onDeleteScene && data.scenes.length > 1 ? () => onDeleteScene(idx) : undefined}
+                    onGripDown={onMoveScene && data.scenes.length > 1 ? () => canRestructure && setArmedIndex(idx) : undefined}
+                    rewriting={rewritingId === scene.id}
+                    locked={!canRestructure}
+                  />
+                  {insertingAt === idx + 1 && onInsertScene && (
+                    <div className="mt-6 border border-dashed border-slate-700 rounded-2xl p-6 flex items-center justify-center gap-2 text-xs text-slate-400">
+                      <RefreshCw size={14} className="animate-spin"/> {t.writingScene}
+                    </div>
+                  )}
+                </div>
               ))}
           </div>
       </div>
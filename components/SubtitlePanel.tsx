@@ -0,0 +1,163 @@
+import React from 'react';
+import { Scene, SubtitleSettings, AudioExportSettings, TRANSLATIONS, Language } from '../types';
+import { buildCaptions, captionsToSrt, captionsToVtt } from '../services/subtitleService';
+import { narrationTimings } from '../services/audioService';
+import { Captions, Download } from 'lucide-react';
+
+interface Props {
+  scenes: Scene[];
+  settings: SubtitleSettings;
+  audioExport: AudioExportSettings; // Gap used for the narration-track timeline
+  onSettingsChange: (updates: Partial<SubtitleSettings>) => void;
+  onDownload: (data: string | Blob, filename: string) => void;
+  onError: (message: string) => void;
+  lang: Language;
+}
+
+const CAPTION_COLORS = ['#FFFFFF', '#FACC15', '#38BDF8'];
+
+export const SubtitlePanel: React.FC<Props> = ({ scenes, settings, audioExport, onSettingsChange, onDownload, onError, lang }) => {
+  const t = TRANSLATIONS[lang];
+  // Sidecar files match either the rendered video or the full-narration export, whose timelines differ
+  const [timeline, setTimeline] = React.useState<'video' | 'narration'>('video');
+
+  const handleExport = (format: 'srt' | 'vtt') => {
+      try {
+          const timings = timeline === 'narration' ? narrationTimings(scenes, audioExport) : undefined;
+          if (timings?.length === 0) throw new Error("No scene audio to time the subtitles against. Generate audio first.");
+          const captions = buildCaptions(scenes, settings, timings);
+          const text = format === 'srt' ? captionsToSrt(captions) : captionsToVtt(captions);
+          onDownload(new Blob([text], { type: format === 'srt' ? 'application/x-subrip' : 'text/vtt' }), `story.${format}`);
+      } catch (err: any) {
+          onError(err.message || "Subtitle export failed.");
+      }
+  };
+
+  const Choice = <K extends 'fontSize' | 'position' | 'background'>({ field, options }: { field: K; options: SubtitleSettings[K][] }) => (
+      <div className="flex gap-1">
+          {options.map(option => (
+              <button
+                  key={option}
+                  onClick={() => onSettingsChange({ [field]: option } as Partial<SubtitleSettings>)}
+                  className={`flex-1 px-2 py-1 rounded-md text-[11px] font-bold border transition-all ${settings[field] === option ? 'bg-primary border-primary text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500'}`}
+              >
+                  {t[option as keyof typeof t]}
+              </button>
+          ))}
+      </div>
+  );
+
+  const hasNarrative = scenes.some(s => s.narrative);
+
+  return (
+    <div className="mb-6 bg-surface border border-slate-700/50 rounded-2xl p-4">
+        <div className="flex items-center justify-between gap-4 mb-4">
+            <div className="flex items-center gap-2 text-white text-sm font-bold">
+                <Captions size={18} className="text-secondary"/> {t.subtitles}
+            </div>
+            <div className="flex gap-2">
+                <button
+                    onClick={() => handleExport('srt')}
+                    disabled={!hasNarrative}
+                    className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 rounded-lg text-xs font-bold flex items-center gap-2 transition-colors disabled:opacity-50"
+                >
+                    <Download size={14}/> {t.downloadSrt}
+                </button>
+                <button
+                    onClick={() => handleExport('vtt')}
+                    disabled={!hasNarrative}
+                    className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 rounded-lg text-xs font-bold flex items-center gap-2 transition-colors disabled:opacity-50"
+                >
+                    <Download size={14}/> {t.downloadVtt}
+                </button>
+            </div>
+        </div>
+
+        <div className="mb-4">
+            <label className="text-xs text-slate-400 mb-1 block">{t.subtitleTimeline}</label>
+            <div className="flex gap-1">
+                {(['video', 'narration'] as const).map(option => (
+                    <button
+                        key={option}
+                        onClick={() => setTimeline(option)}
+                        className={`flex-1 px-2 py-1 rounded-md text-[11px] font-bold border transition-all ${timeline === option ? 'bg-primary border-primary text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500'}`}
+                    >
+                        {option === 'video' ? t.timelineVideo : t.timelineNarration}
+                    </button>
+                ))}
+            </div>
+            <p className="text-[10px] text-slate-500 mt-1">{timeline === 'video' ? t.timelineVideoDesc : t.timelineNarrationDesc}</p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+                <div className="flex justify-between text-xs text-slate-400 mb-1">
+                    <span>{t.charsPerLine}</span>
+                    <span className="text-white font-mono">{settings.maxCharsPerLine}</span>
+                </div>
+                <input
+                    type="range" min="16" max="60" step="1"
+                    value={settings.maxCharsPerLine}
+                    onChange={(e) => onSettingsChange({ maxCharsPerLine: parseInt(e.target.value) })}
+                    className="w-full h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-primary"
+                />
+            </div>
+            <div>
+                <label className="text-xs text-slate-400 mb-1 block">{t.linesPerCaption}</label>
+                <div className="flex gap-1">
+                    {[1, 2, 3].map(n => (
+                        <button
+                            key={n}
+                            onClick={() => onSettingsChange({ maxLines: n })}
+                            className={`flex-1 px-2 py-1 rounded-md text-[11px] font-bold border transition-all ${settings.maxLines === n ? 'bg-primary border-primary text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500'}`}
+                        >
+                            {n}
+                        </button>
+                    ))}
+                </div>
+            </div>
+        </div>
+
+        <label className="flex items-center gap-2 mt-4 text-xs text-slate-300 cursor-pointer">
+            <input
+                type="checkbox"
+                checked={settings.burnIn}
+                onChange={(e) => onSettingsChange({ burnIn: e.target.checked })}
+                className="accent-primary"
+            />
+            {t.burnInCaptions}
+        </label>
+
+        {settings.burnIn && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+                <div>
+                    <label className="text-xs text-slate-400 mb-1 block">{t.captionSize}</label>
+                    <Choice field="fontSize" options={['small', 'medium', 'large']} />
+                </div>
+                <div>
+                    <label className="text-xs text-slate-400 mb-1 block">{t.captionPosition}</label>
+                    <Choice field="position" options={['top', 'middle', 'bottom']} />
+                </div>
+                <div>
+                    <label className="text-xs text-slate-400 mb-1 block">{t.captionBackground}</label>
+                    <Choice field="background" options={['none', 'box', 'outline']} />
+                </div>
+                <div>
+                    <label className="text-xs text-slate-400 mb-1 block">{t.captionColor}</label>
+                    <div className="flex gap-2">
+                        {CAPTION_COLORS.map(color => (
+                            <button
+                                key={color}
+                                onClick={() => onSettingsChange({ color })}
+                                className={`w-7 h-7 rounded-full border-2 transition-all ${settings.color === color ? 'border-primary scale-110' : 'border-slate-700'}`}
+                                style={{ backgroundColor: color }}
+                                title={color}
+                            />
+                        ))}
+                    </div>
+                </div>
+            </div>
+        )}
+    </div>
+  );
+};
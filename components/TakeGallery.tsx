@@ -0,0 +1,58 @@
+import React from 'react';
+import { TRANSLATIONS, Language, ImageTake } from '../types';
+import { Check, Pin, X } from 'lucide-react';
+
+interface Props {
+  takes: ImageTake[];
+  selectedId?: string;
+  pinnedSeed?: number;
+  lang: Language;
+  onSelect: (take: ImageTake) => void;
+  onPinSeed: (seed: number | undefined) => void; // undefined unpins
+}
+
+// Every take of a scene, newest last; rejected takes stay here so the user can switch back.
+// Pinning a take's seed applies to this scene only.
+export const TakeGallery: React.FC<Props> = ({ takes, selectedId, pinnedSeed, lang, onSelect, onPinSeed }) => {
+  const t = TRANSLATIONS[lang];
+  if (takes.length < 2 && pinnedSeed === undefined) return null;
+
+  return (
+    <div className="mt-2">
+      <div className="flex items-center justify-between px-1">
+        <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{t.takes} ({takes.length})</span>
+        {pinnedSeed !== undefined && (
+          <button onClick={() => onPinSeed(undefined)} className="flex items-center gap-1 text-[10px] font-mono text-primary hover:text-white" title={t.unpinSeed}>
+            <Pin size={10}/> {t.seed} {pinnedSeed} <X size={10}/>
+          </button>
+        )}
+      </div>
+      <div className="flex gap-2 mt-1 overflow-x-auto pb-1 custom-scrollbar">
+        {takes.map((take, i) => {
+          const selected = take.id === selectedId;
+          return (
+            <div key={take.id} className="relative shrink-0 group/take">
+              <button
+                onClick={() => onSelect(take)}
+                className={`block w-20 h-12 rounded-lg overflow-hidden border-2 transition-colors ${selected ? 'border-primary' : 'border-transparent hover:border-slate-500 opacity-70 hover:opacity-100'}`}
+                title={`${t.take} ${i + 1}${take.model ? ` · ${take.model}` : ''}${take.seed !== undefined ? ` · ${t.seed} ${take.seed}` : ''}${take.instruction ? ` · "${take.instruction}"` : ''}`}
+              >
+                <img src={take.url} alt={`${t.take} ${i + 1}`} className="w-full h-full object-cover" />
+              </button>
+              {selected && <span className="absolute top-0.5 start-0.5 p-0.5 bg-primary rounded text-white"><Check size={10}/></span>}
+              {take.seed !== undefined && (
+                <button
+                  onClick={() => onPinSeed(pinnedSeed === take.seed ? undefined : take.seed)}
+                  className={`absolute top-0.5 end-0.5 p-0.5 rounded bg-black/70 transition-opacity ${pinnedSeed === take.seed ? 'text-primary' : 'text-white opacity-0 group-hover/take:opacity-100'}`}
+                  title={`${t.pinSeed} (${take.seed})`}
+                >
+                  <Pin size={10}/>
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Scene, AspectRatio, SubtitleSettings, TRANSLATIONS, Language } from '../types';
+import { renderStoryVideo, isVideoRenderSupported, EXPORT_PRESETS, ExportPreset } from '../services/videoRenderer';
+import { buildCaptions } from '../services/subtitleService';
+import { imageForAspect } from '../services/sceneState';
+import { exportStills } from '../services/projectBundle';
+import { Film, Download, X, RefreshCw, Images } from 'lucide-react';
+
+interface Props {
+  scenes: Scene[];
+  aspectRatio: AspectRatio;
+  subtitles: SubtitleSettings;
+  onDownload: (data: string | Blob, filename: string) => void;
+  onError: (message: string) => void;
+  lang: Language;
+}
+
+export const VideoRenderPanel: React.FC<Props> = ({ scenes, aspectRatio, subtitles, onDownload, onError, lang }) => {
+  const t = TRANSLATIONS[lang];
+  const [rendering, setRendering] = useState(false);
+  const [exportingStills, setExportingStills] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [video, setVideo] = useState<{ url: string; extension: string; name: string } | null>(null);
+  const [presetId, setPresetId] = useState<ExportPreset['id'] | ''>(''); // '' = the project's aspect ratio at 720p
+  const preset = EXPORT_PRESETS.find(p => p.id === presetId);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop any render in progress when the panel goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Release the previous preview blob
+  useEffect(() => () => {
+      if (video) URL.revokeObjectURL(video.url);
+  }, [video]);
+
+  if (!isVideoRenderSupported()) return null;
+
+  const handleRender = async () => {
+      const controller = new AbortController();
+      abortRef.current = controller;
+      setRendering(true);
+      setProgress(0);
+      setVideo(null);
+      try {
+          // Scenes reframed for the preset's shape use that image; the rest are centre-cropped
+          const target = preset?.aspectRatio ?? aspectRatio;
+          const framed = scenes.map(s => ({ ...s, imageUrl: imageForAspect(s, target, aspectRatio) ?? s.imageUrl }));
+          const result = await renderStoryVideo(framed, {
+              aspectRatio: target,
+              shortSide: preset?.shortSide,
+              signal: controller.signal,
+              onProgress: setProgress,
+              ...(subtitles.burnIn && { captions: buildCaptions(scenes, subtitles), captionStyle: subtitles })
+          });
+          setVideo({ url: URL.createObjectURL(result.blob), extension: result.extension, name: preset ? `story-${preset.id}` : 'story' });
+      } catch (err: any) {
+          if (err.name !== 'AbortError') onError(err.message || "Video render failed.");
+      } finally {
+          abortRef.current = null;
+          setRendering(false);
+      }
+  };
+
+  // The preset applies to stills too, e.g. 4:5 crops for an Instagram carousel
+  const handleExportStills = async () => {
+      setExportingStills(true);
+      try {
+          const zip = await exportStills(scenes, aspectRatio, preset, subtitles.burnIn ? { captions: buildCaptions(scenes, subtitles), style: subtitles } : undefined);
+          onDownload(zip, `${preset ? `stills-${preset.id}` : 'stills'}.zip`);
+      } catch (err: any) {
+          onError(err.message || "Image export failed.");
+      } finally {
+          setExportingStills(false);
+      }
+  };
+
+  return (
+    <div className="mb-6 bg-surface border border-slate-700/50 rounded-2xl p-4">
+        <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-2 text-white text-sm font-bold">
+                <Film size={18} className="text-secondary"/> {t.renderVideo}
+                <select
+                    value={presetId}
+                    onChange={(e) => setPresetId(e.target.value as ExportPreset['id'] | '')}
+                    disabled={rendering || exportingStills}
+                    title={t.exportPreset}
+                    className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-[10px] font-mono text-slate-400 focus:border-primary outline-none"
+                >
+                    <option value="">{t.presetProject} · {aspectRatio}</option>
+                    {EXPORT_PRESETS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                </select>
+                {subtitles.burnIn && <span className="text-[10px] font-mono text-slate-500">CC</span>}
+            </div>
+            {rendering ? (
+                <button
+                    onClick={() => abortRef.current?.abort()}
+                    className="px-4 py-2 bg-slate-800 hover:bg-red-500/20 text-red-300 rounded-lg text-xs font-bold flex items-center gap-2 transition-colors"
+                >
+                    <X size={14}/> {t.cancel}
+                </button>
+            ) : (
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={handleExportStills}
+                        disabled={exportingStills || !scenes.some(s => s.imageUrl)}
+                        className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-xs font-bold flex items-center gap-2 transition-colors disabled:opacity-50"
+                    >
+                        {exportingStills ? <RefreshCw size={14} className="animate-spin"/> : <Images size={14}/>} {t.downloadStills}
+                    </button>
+                    <button
+                        onClick={handleRender}
+                        disabled={!scenes.some(s => s.imageUrl)}
+                        className="px-4 py-2 bg-secondary/20 hover:bg-secondary text-secondary hover:text-white border border-secondary/40 rounded-lg text-xs font-bold flex items-center gap-2 transition-colors disabled:opacity-50"
+                    >
+                        <Film size={14}/> {t.renderVideo}
+                    </button>
+                </div>
+            )}
+        </div>
+
+        {rendering && (
+            <div className="mt-4">
+                <div className="flex justify-between text-xs text-slate-400 mb-1">
+                    <span className="flex items-center gap-1"><RefreshCw size={12} className="animate-spin"/> {t.renderingVideo}</span>
+                    <span className="font-mono">{Math.round(progress * 100)}%</span>
+                </div>
+                <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                    <div className="h-full bg-gradient-to-r from-secondary to-primary transition-all" style={{ width: `${progress * 100}%` }} />
+                </div>
+                <p className="text-[10px] text-slate-500 mt-2">{t.keepTabVisible}</p>
+            </div>
+        )}
+
+        {video && !rendering && (
+            <div className="mt-4 space-y-3">
+                <video src={video.url} controls className="w-full max-h-[60vh] rounded-xl bg-black" />
+                <button
+                    onClick={() => onDownload(video.url, `${video.name}.${video.extension}`)}
+                    className="w-full flex items-center justify-center gap-2 bg-slate-800 hover:bg-slate-700 py-2 rounded-lg text-xs font-bold transition-colors"
+                >
+                    <Download size={14}/> {t.downloadVideo} ({video.extension.toUpperCase()})
+                </button>
+            </div>
+        )}
+    </div>
+  );
+};
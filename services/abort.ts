@@ -0,0 +1,24 @@
+// Cancellation uses the platform AbortSignal; aborted work rejects with a DOMException named AbortError,
+// the same error fetch throws, so callers check for both with isAbortError.
+
+export const abortError = (): Error => new DOMException('The operation was aborted.', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean => (error as any)?.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw abortError();
+};
+
+// setTimeout that rejects as soon as the signal aborts
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(abortError());
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
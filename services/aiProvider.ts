@@ -0,0 +1,123 @@
+import { Schema } from "@google/genai";
+import { AspectRatio, ImageResolution, ProviderId } from "../types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+
+// --- Request / Response Shapes ---
+// Every request may carry an AbortSignal; aborted calls reject with an AbortError
+export interface TextRequest {
+    model: string;
+    prompt: string;
+    systemInstruction?: string;
+    temperature?: number;
+    signal?: AbortSignal;
+}
+
+export interface JsonRequest extends TextRequest {
+    schema: Schema;
+}
+
+export interface JsonStreamRequest extends JsonRequest {
+    onText: (textSoFar: string) => void; // Raw accumulated response, for incremental parsing
+}
+
+export interface SpeechRequest {
+    model: string;
+    text: string;
+    voiceName: string;
+    styleInstruction?: string; // Performance direction (tone, accent), not read aloud
+    signal?: AbortSignal;
+}
+
+// Raw 16-bit mono PCM. Wrapping it in a container (WAV) is the caller's job.
+export interface SpeechResult {
+    pcm: Int16Array;
+    sampleRate: number;
+}
+
+export interface InlineImage {
+    mimeType: string;
+    data: string; // Base64 without the data URL header
+}
+
+export interface ReferenceImage {
+    label: string; // e.g. the character name, sent as a caption before the image
+    image: InlineImage;
+}
+
+export interface ImageRequest {
+    model: string;
+    prompt: string;
+    aspectRatio: AspectRatio;
+    imageSize?: ImageResolution;
+    referenceImages?: ReferenceImage[];
+    seed?: number; // Same seed and request give (near) identical output where the backend honours it
+    signal?: AbortSignal;
+}
+
+// Edits an existing image by instruction. With a mask, only the painted (white) area may change.
+export interface ImageEditRequest {
+    model: string;
+    instruction: string;
+    image: InlineImage;
+    mask?: InlineImage; // Same size as the image: white = editable, black = keep
+    aspectRatio: AspectRatio;
+    signal?: AbortSignal;
+}
+
+export interface VisionRequest {
+    model: string;
+    prompt: string;
+    image: InlineImage;
+    signal?: AbortSignal;
+}
+
+export interface VisionJsonRequest extends VisionRequest {
+    schema: Schema;
+}
+
+/**
+ * A backend capable of serving every modality the studio needs.
+ * Implementations must not retry on their own; `callWithRetry` in geminiService handles that.
+ */
+export interface AIProvider {
+    id: ProviderId;
+    generateText(req: TextRequest): Promise<string>;
+    generateJson<T>(req: JsonRequest): Promise<T>;
+    streamJson<T>(req: JsonStreamRequest): Promise<T>;
+    generateSpeech(req: SpeechRequest): Promise<SpeechResult>;
+    generateImage(req: ImageRequest): Promise<string>; // Data URL
+    editImage(req: ImageEditRequest): Promise<string>; // Data URL
+    analyzeImage(req: VisionRequest): Promise<string>;
+    analyzeImageJson<T>(req: VisionJsonRequest): Promise<T>;
+}
+
+export const PROVIDERS: { id: ProviderId; label: string }[] = [
+    { id: 'gemini', label: 'Google Gemini' },
+    { id: 'mock', label: 'Offline Mock (no API key)' },
+];
+
+// The active backend is app-wide so that callers without a project handle (e.g. StepConfig) stay in sync.
+let activeProvider: ProviderId = process.env.AI_PROVIDER === 'mock' ? 'mock' : 'gemini';
+
+export const setActiveProvider = (id: ProviderId) => {
+    activeProvider = id;
+};
+
+export const getActiveProvider = (): ProviderId => activeProvider;
+
+export const getProvider = (apiKey?: string): AIProvider => {
+    switch (activeProvider) {
+        case 'mock': return createMockProvider();
+        case 'gemini':
+        default:
+            return createGeminiProvider(apiKey);
+    }
+};
+
+// Splits a data URL into the shape expected by vision / image-conditioning calls.
+export const toInlineImage = (dataUrl: string, fallbackMime = 'image/jpeg'): InlineImage => {
+    const match = dataUrl.match(/^data:([^;]+);base64,(.*)$/);
+    if (match) return { mimeType: match[1], data: match[2] };
+    return { mimeType: fallbackMime, data: dataUrl.split(',')[1] || dataUrl };
+};
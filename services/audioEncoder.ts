@@ -0,0 +1,178 @@
+import { Mp3Encoder } from "@breezystack/lamejs";
+import { AudioFormat } from "../types";
+import { addWavHeader } from "./geminiService";
+import { DecodedAudio, resample } from "./audioService";
+
+export const AUDIO_MIME_TYPES: Record<AudioFormat, string> = {
+    wav: 'audio/wav',
+    mp3: 'audio/mpeg',
+    opus: 'audio/ogg; codecs=opus',
+};
+
+export const AUDIO_EXTENSIONS: Record<AudioFormat, string> = {
+    wav: 'wav',
+    mp3: 'mp3',
+    opus: 'ogg',
+};
+
+// Opus goes through WebCodecs, which not every browser ships
+export const isOpusSupported = (): boolean => typeof AudioEncoder !== 'undefined';
+
+export const availableAudioFormats = (): AudioFormat[] =>
+    isOpusSupported() ? ['wav', 'mp3', 'opus'] : ['wav', 'mp3'];
+
+// --- MP3 (lamejs) ---
+const MP3_FRAME = 1152;
+
+export const encodeMp3 = (audio: DecodedAudio, kbps: number): Blob => {
+    const encoder = new Mp3Encoder(1, audio.sampleRate, kbps);
+    const chunks: Uint8Array[] = [];
+    for (let i = 0; i < audio.pcm.length; i += MP3_FRAME) {
+        const out = encoder.encodeBuffer(audio.pcm.subarray(i, i + MP3_FRAME));
+        if (out.length > 0) chunks.push(new Uint8Array(out));
+    }
+    const tail = encoder.flush();
+    if (tail.length > 0) chunks.push(new Uint8Array(tail));
+    return new Blob(chunks as BlobPart[], { type: AUDIO_MIME_TYPES.mp3 });
+};
+
+// --- Opus in Ogg (WebCodecs + minimal muxer) ---
+const OPUS_RATE = 48000; // Opus granule positions are always counted at 48 kHz
+const OPUS_PRE_SKIP = 312; // libopus default encoder delay
+
+const OGG_CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+        let r = i << 24;
+        for (let k = 0; k < 8; k++) r = r & 0x80000000 ? (r << 1) ^ 0x04C11DB7 : r << 1;
+        table[i] = r >>> 0;
+    }
+    return table;
+})();
+
+const oggCrc = (bytes: Uint8Array): number => {
+    let crc = 0;
+    for (let i = 0; i < bytes.length; i++) crc = ((crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) ^ bytes[i]) & 0xFF]) >>> 0;
+    return crc;
+};
+
+const buildOggPage = (packets: Uint8Array[], granule: number, serial: number, sequence: number, headerType: number): Uint8Array => {
+    const lacing: number[] = [];
+    for (const p of packets) {
+        for (let n = p.length; ; n -= 255) {
+            lacing.push(Math.min(255, n));
+            if (n < 255) break;
+        }
+    }
+    const bodySize = packets.reduce((sum, p) => sum + p.length, 0);
+    const page = new Uint8Array(27 + lacing.length + bodySize);
+    const view = new DataView(page.buffer);
+    page.set([0x4F, 0x67, 0x67, 0x53]); // "OggS"
+    page[5] = headerType;
+    view.setUint32(6, granule % 0x100000000, true);
+    view.setUint32(10, Math.floor(granule / 0x100000000), true);
+    view.setUint32(14, serial, true);
+    view.setUint32(18, sequence, true);
+    page[26] = lacing.length;
+    page.set(lacing, 27);
+    let offset = 27 + lacing.length;
+    for (const p of packets) { page.set(p, offset); offset += p.length; }
+    view.setUint32(22, oggCrc(page), true);
+    return page;
+};
+
+const opusHead = (sampleRate: number): Uint8Array => {
+    const head = new Uint8Array(19);
+    const view = new DataView(head.buffer);
+    head.set(new TextEncoder().encode('OpusHead'));
+    head[8] = 1; // version
+    head[9] = 1; // channels
+    view.setUint16(10, OPUS_PRE_SKIP, true);
+    view.setUint32(12, sampleRate, true); // original input rate, informational
+    return head;
+};
+
+const opusTags = (): Uint8Array => {
+    const vendor = new TextEncoder().encode('Story Studio');
+    const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+    const view = new DataView(tags.buffer);
+    tags.set(new TextEncoder().encode('OpusTags'));
+    view.setUint32(8, vendor.length, true);
+    tags.set(vendor, 12);
+    view.setUint32(12 + vendor.length, 0, true); // no user comments
+    return tags;
+};
+
+export const encodeOggOpus = async (audio: DecodedAudio, kbps: number): Promise<Blob> => {
+    if (!isOpusSupported()) throw new Error("Opus encoding is not supported in this browser.");
+    const pcm = resample(audio.pcm, audio.sampleRate, OPUS_RATE);
+
+    const packets: { data: Uint8Array; samples: number }[] = [];
+    let encodeError: Error | null = null;
+    const encoder = new AudioEncoder({
+        output: (chunk) => {
+            const data = new Uint8Array(chunk.byteLength);
+            chunk.copyTo(data);
+            packets.push({ data, samples: Math.round(((chunk.duration ?? 20000) * OPUS_RATE) / 1e6) });
+        },
+        error: (e) => { encodeError = e as Error; }
+    });
+    encoder.configure({ codec: 'opus', sampleRate: OPUS_RATE, numberOfChannels: 1, bitrate: kbps * 1000 });
+
+    const block = OPUS_RATE / 10;
+    for (let i = 0; i < pcm.length; i += block) {
+        const frame = pcm.slice(i, i + block);
+        const data = new AudioData({
+            format: 's16',
+            sampleRate: OPUS_RATE,
+            numberOfFrames: frame.length,
+            numberOfChannels: 1,
+            timestamp: Math.round((i * 1e6) / OPUS_RATE),
+            data: frame
+        });
+        encoder.encode(data);
+        data.close();
+    }
+    await encoder.flush();
+    encoder.close();
+    if (encodeError) throw encodeError;
+
+    const serial = (Math.random() * 0xFFFFFFFF) >>> 0;
+    const pages: Uint8Array[] = [
+        buildOggPage([opusHead(audio.sampleRate)], 0, serial, 0, 0x02),
+        buildOggPage([opusTags()], 0, serial, 1, 0),
+    ];
+
+    // Pack audio packets into pages of at most 255 lacing values
+    const endGranule = OPUS_PRE_SKIP + pcm.length;
+    let granule = OPUS_PRE_SKIP;
+    let pending: Uint8Array[] = [];
+    let lacingCount = 0;
+    const flush = (last: boolean) => {
+        pages.push(buildOggPage(pending, last ? endGranule : granule, serial, pages.length, last ? 0x04 : 0));
+        pending = [];
+        lacingCount = 0;
+    };
+    packets.forEach((packet, i) => {
+        const segments = Math.floor(packet.data.length / 255) + 1;
+        if (lacingCount + segments > 255) flush(false);
+        pending.push(packet.data);
+        lacingCount += segments;
+        granule += packet.samples;
+        if (i === packets.length - 1) flush(true);
+    });
+    if (packets.length === 0) flush(true);
+
+    return new Blob(pages as BlobPart[], { type: AUDIO_MIME_TYPES.opus });
+};
+
+/** Encodes mono PCM into the requested download format. */
+export const encodeAudio = async (audio: DecodedAudio, format: AudioFormat, kbps: number): Promise<Blob> => {
+    switch (format) {
+        case 'mp3': return encodeMp3(audio, kbps);
+        case 'opus': return encodeOggOpus(audio, kbps);
+        case 'wav':
+        default:
+            return new Blob([addWavHeader(audio.pcm, audio.sampleRate)], { type: AUDIO_MIME_TYPES.wav });
+    }
+};
@@ -0,0 +1,170 @@
+import { Scene, AudioExportSettings } from "../types";
+
+// Scenes without narration are held this long on the video and subtitle timelines
+export const SILENT_SCENE_SECONDS = 4;
+
+export interface DecodedAudio {
+    pcm: Int16Array;
+    sampleRate: number;
+}
+
+export interface SceneTiming {
+    sceneNumber: number;
+    start: number; // Seconds from the start of the track
+    end: number;
+}
+
+export interface StitchedAudio extends DecodedAudio {
+    duration: number;
+    timings: SceneTiming[];
+    skippedScenes: number[]; // Scenes without audio
+}
+
+const base64ToBytes = (base64: string): Uint8Array => {
+    const binary = atob(base64.split(',').pop() || '');
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+};
+
+const readTag = (view: DataView, offset: number) =>
+    String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+/**
+ * Parses a base64 WAV (as stored in Scene.audioData) back into PCM.
+ * Only 16-bit PCM is supported; stereo is downmixed to mono.
+ */
+export const decodeWav = (base64Wav: string): DecodedAudio => {
+    const bytes = base64ToBytes(base64Wav);
+    const view = new DataView(bytes.buffer);
+    if (bytes.length < 12 || readTag(view, 0) !== 'RIFF' || readTag(view, 8) !== 'WAVE') {
+        throw new Error("Not a WAV file.");
+    }
+
+    let sampleRate = 24000;
+    let channels = 1;
+    let bitsPerSample = 16;
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+        const tag = readTag(view, offset);
+        const size = view.getUint32(offset + 4, true);
+        const body = offset + 8;
+        if (tag === 'fmt ') {
+            channels = view.getUint16(body + 2, true);
+            sampleRate = view.getUint32(body + 4, true);
+            bitsPerSample = view.getUint16(body + 14, true);
+        } else if (tag === 'data') {
+            if (bitsPerSample !== 16) throw new Error(`Unsupported WAV bit depth: ${bitsPerSample}`);
+            const frames = Math.floor(Math.min(size, bytes.length - body) / (2 * channels));
+            const pcm = new Int16Array(frames);
+            for (let i = 0; i < frames; i++) {
+                let sum = 0;
+                for (let c = 0; c < channels; c++) sum += view.getInt16(body + (i * channels + c) * 2, true);
+                pcm[i] = Math.round(sum / channels);
+            }
+            return { pcm, sampleRate };
+        }
+        offset = body + size + (size % 2); // Chunks are word-aligned
+    }
+    throw new Error("WAV file has no data chunk.");
+};
+
+// Linear resampling (mixed provider sample rates, 48 kHz Opus input)
+export const resample = (pcm: Int16Array, from: number, to: number): Int16Array => {
+    if (from === to) return pcm;
+    const out = new Int16Array(Math.round((pcm.length * to) / from));
+    const ratio = from / to;
+    for (let i = 0; i < out.length; i++) {
+        const pos = i * ratio;
+        const i0 = Math.floor(pos);
+        const i1 = Math.min(i0 + 1, pcm.length - 1);
+        out[i] = Math.round(pcm[i0] + (pcm[i1] - pcm[i0]) * (pos - i0));
+    }
+    return out;
+};
+
+const applyFades = (pcm: Int16Array, sampleRate: number, fadeIn: number, fadeOut: number): Int16Array => {
+    const out = new Int16Array(pcm);
+    const inLen = Math.min(out.length, Math.round(fadeIn * sampleRate));
+    const outLen = Math.min(out.length, Math.round(fadeOut * sampleRate));
+    for (let i = 0; i < inLen; i++) out[i] = Math.round(out[i] * (i / inLen));
+    for (let i = 0; i < outLen; i++) {
+        const idx = out.length - 1 - i;
+        out[idx] = Math.round(out[idx] * (i / outLen));
+    }
+    return out;
+};
+
+/**
+ * Joins every scene's narration into one track, in scene order, with silence between scenes
+ * and optional per-scene fades. Scenes without audio are skipped and reported.
+ */
+export const stitchStoryAudio = (scenes: Scene[], settings: AudioExportSettings): StitchedAudio => {
+    const ordered = [...scenes].sort((a, b) => a.sceneNumber - b.sceneNumber);
+    const decoded = ordered
+        .filter(s => s.audioData)
+        .map(s => ({ sceneNumber: s.sceneNumber, audio: decodeWav(s.audioData!) }));
+    if (decoded.length === 0) throw new Error("No scene audio to export. Generate audio first.");
+
+    const sampleRate = decoded[0].audio.sampleRate;
+    const clips = decoded.map(d => ({
+        sceneNumber: d.sceneNumber,
+        pcm: applyFades(resample(d.audio.pcm, d.audio.sampleRate, sampleRate), sampleRate, settings.fadeInSeconds, settings.fadeOutSeconds)
+    }));
+
+    const gap = Math.round(Math.max(0, settings.gapSeconds) * sampleRate);
+    const total = clips.reduce((sum, c) => sum + c.pcm.length, 0) + gap * (clips.length - 1);
+    const pcm = new Int16Array(total);
+    const timings: SceneTiming[] = [];
+    let offset = 0;
+    clips.forEach((clip, i) => {
+        pcm.set(clip.pcm, offset);
+        timings.push({ sceneNumber: clip.sceneNumber, start: offset / sampleRate, end: (offset + clip.pcm.length) / sampleRate });
+        offset += clip.pcm.length + (i < clips.length - 1 ? gap : 0);
+    });
+
+    return {
+        pcm,
+        sampleRate,
+        duration: total / sampleRate,
+        timings,
+        skippedScenes: ordered.filter(s => !s.audioData).map(s => s.sceneNumber)
+    };
+};
+
+/**
+ * Where each scene falls in the stitchStoryAudio track for the same settings, without building
+ * the track: scenes without audio are skipped and scenes are separated by the gap.
+ */
+export const narrationTimings = (scenes: Scene[], settings: Pick<AudioExportSettings, 'gapSeconds'>): SceneTiming[] => {
+    const decoded = [...scenes]
+        .sort((a, b) => a.sceneNumber - b.sceneNumber)
+        .filter(s => s.audioData)
+        .map(s => ({ sceneNumber: s.sceneNumber, audio: decodeWav(s.audioData!) }));
+    if (decoded.length === 0) return [];
+    const sampleRate = decoded[0].audio.sampleRate;
+    const gap = Math.round(Math.max(0, settings.gapSeconds) * sampleRate);
+    let offset = 0;
+    return decoded.map(({ sceneNumber, audio }) => {
+        // Same length resample() gives when the track is stitched at the first scene's rate
+        const length = audio.sampleRate === sampleRate ? audio.pcm.length : Math.round((audio.pcm.length * sampleRate) / audio.sampleRate);
+        const timing = { sceneNumber, start: offset / sampleRate, end: (offset + length) / sampleRate };
+        offset += length + gap;
+        return timing;
+    });
+};
+
+// HH:MM:SS.mmm — the separator is configurable because SRT uses a comma
+export const formatTimestamp = (seconds: number, msSeparator = '.'): string => {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    const h = Math.floor(totalMs / 3600000);
+    const m = Math.floor((totalMs % 3600000) / 60000);
+    const s = Math.floor((totalMs % 60000) / 1000);
+    const ms = totalMs % 1000;
+    const pad = (n: number, len = 2) => String(n).padStart(len, '0');
+    return `${pad(h)}:${pad(m)}:${pad(s)}${msSeparator}${pad(ms, 3)}`;
+};
+
+// Plain-text cue sheet for lining up visuals in an editor
+export const timingsToText = (timings: SceneTiming[]): string =>
+    timings.map(t => `Scene ${t.sceneNumber}\t${formatTimestamp(t.start)}\t${formatTimestamp(t.end)}`).join('\n') + '\n';
@@ -0,0 +1,162 @@
+import { GoogleGenAI, Modality, GenerateContentResponse } from "@google/genai";
+import { abortError } from "./abort";
+import type { AIProvider, TextRequest, JsonRequest, JsonStreamRequest, SpeechRequest, SpeechResult, ImageRequest, ImageEditRequest, VisionRequest, VisionJsonRequest } from "./aiProvider";
+
+// Helper to get AI instance with dynamic key
+const getAI = (customKey?: string) => {
+    const key = customKey || process.env.API_KEY;
+    if (!key) throw new Error("Missing API Key. Please add one in Settings.");
+    return new GoogleGenAI({ apiKey: key });
+};
+
+const firstImage = (response: GenerateContentResponse): string => {
+    for (const cand of response.candidates || []) {
+        for (const part of cand.content?.parts || []) {
+            if (part.inlineData) {
+                return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+            }
+        }
+    }
+    throw new Error("No image data returned.");
+};
+
+export const createGeminiProvider = (apiKey?: string): AIProvider => {
+    const ai = getAI(apiKey);
+
+    const generateText = async (req: TextRequest): Promise<string> => {
+        const response = await ai.models.generateContent({
+            model: req.model,
+            contents: req.prompt,
+            config: {
+                systemInstruction: req.systemInstruction,
+                temperature: req.temperature,
+                abortSignal: req.signal,
+            }
+        });
+        if (!response.text) throw new Error("No text returned from Gemini.");
+        return response.text;
+    };
+
+    const generateJson = async <T,>(req: JsonRequest): Promise<T> => {
+        const response = await ai.models.generateContent({
+            model: req.model,
+            contents: req.prompt,
+            config: {
+                systemInstruction: req.systemInstruction,
+                responseMimeType: 'application/json',
+                responseSchema: req.schema,
+                temperature: req.temperature,
+                abortSignal: req.signal,
+            }
+        });
+        if (!response.text) throw new Error("No text returned from Gemini.");
+        return JSON.parse(response.text) as T;
+    };
+
+    const streamJson = async <T,>(req: JsonStreamRequest): Promise<T> => {
+        const stream = await ai.models.generateContentStream({
+            model: req.model,
+            contents: req.prompt,
+            config: {
+                systemInstruction: req.systemInstruction,
+                responseMimeType: 'application/json',
+                responseSchema: req.schema,
+                temperature: req.temperature,
+                abortSignal: req.signal,
+            }
+        });
+        let text = '';
+        for await (const chunk of stream) {
+            if (req.signal?.aborted) throw abortError();
+            text += chunk.text || '';
+            req.onText(text);
+        }
+        if (!text) throw new Error("No text returned from Gemini.");
+        return JSON.parse(text) as T;
+    };
+
+    const generateSpeech = async (req: SpeechRequest): Promise<SpeechResult> => {
+        // TTS models take direction as a "<instruction>: <text>" prefix
+        const text = req.styleInstruction ? `${req.styleInstruction}:\n${req.text}` : req.text;
+        const response = await ai.models.generateContent({
+            model: req.model,
+            contents: [{ parts: [{ text }] }],
+            config: { responseModalities: [Modality.AUDIO], speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: req.voiceName } } }, abortSignal: req.signal },
+        });
+        const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+        if (!base64Audio) throw new Error("No audio");
+        const binaryString = atob(base64Audio);
+        const len = binaryString.length;
+        const bytes = new Uint8Array(len);
+        for (let i = 0; i < len; i++) bytes[i] = binaryString.charCodeAt(i);
+        // Gemini TTS returns raw 24 kHz 16-bit mono PCM
+        return { pcm: new Int16Array(bytes.buffer), sampleRate: 24000 };
+    };
+
+    const generateImage = async (req: ImageRequest): Promise<string> => {
+        const imageConfig: any = { aspectRatio: req.aspectRatio };
+        if (req.imageSize) imageConfig.imageSize = req.imageSize;
+
+        const parts: any[] = [{ text: req.prompt }];
+        for (const ref of req.referenceImages || []) {
+            parts.push({ text: `Reference image: ${ref.label}` });
+            parts.push({ inlineData: ref.image });
+        }
+
+        const response = await ai.models.generateContent({
+            model: req.model,
+            contents: { parts },
+            config: { imageConfig, seed: req.seed, abortSignal: req.signal }
+        });
+
+        return firstImage(response);
+    };
+
+    // The image models take no mask parameter, so the mask is sent as a second, captioned image
+    const editImage = async (req: ImageEditRequest): Promise<string> => {
+        const parts: any[] = [{ text: 'Image to edit:' }, { inlineData: req.image }];
+        if (req.mask) {
+            parts.push({ text: 'Edit mask (same size as the image). Change ONLY the white area; keep every black-area pixel exactly as it is:' });
+            parts.push({ inlineData: req.mask });
+        }
+        parts.push({ text: `Edit instruction: ${req.instruction}\nKeep the art style, lighting, framing and everything not mentioned unchanged.` });
+
+        const response = await ai.models.generateContent({
+            model: req.model,
+            contents: { parts },
+            config: { imageConfig: { aspectRatio: req.aspectRatio }, abortSignal: req.signal }
+        });
+        return firstImage(response);
+    };
+
+    const analyzeImage = async (req: VisionRequest): Promise<string> => {
+        const response = await ai.models.generateContent({
+            model: req.model,
+            contents: {
+                parts: [
+                    { inlineData: req.image },
+                    { text: req.prompt }
+                ]
+            },
+            config: { abortSignal: req.signal }
+        });
+        return response.text?.trim() || '';
+    };
+
+    const analyzeImageJson = async <T,>(req: VisionJsonRequest): Promise<T> => {
+        const response = await ai.models.generateContent({
+            model: req.model,
+            contents: {
+                parts: [
+                    { inlineData: req.image },
+                    { text: req.prompt }
+                ]
+            },
+            config: { responseMimeType: 'application/json', responseSchema: req.schema, abortSignal: req.signal }
+        });
+        if (!response.text) throw new Error("No text returned from Gemini.");
+        return JSON.parse(response.text) as T;
+    };
+
+    return { id: 'gemini', generateText, generateJson, streamJson, generateSpeech, generateImage, editImage, analyzeImage, analyzeImageJson };
+};
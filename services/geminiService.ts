@@ -1,19 +1,93 @@
-import { GoogleGenAI, Type, Schema, Modality } from "@google/genai";
-import { StoryConfig, StoryOutput, MediaSettings, VoiceConfig, ImageStyleConfig, Character } from "../types";
+import { Type, Schema } from "@google/genai";
+import { AspectRatio, ConsistencyIssue, StoryConfig, StoryOutput, StoryOutline, OutlineChapter, StoryDraft, Scene, MediaSettings, VoiceConfig, ImageStyleConfig, Character, ModelSettings, ModelModality, DEFAULT_MODELS, IMAGE_MODELS, Language, NarrativeSegment, NARRATOR } from "../types";
+import { getProvider, toInlineImage, ReferenceImage } from "./aiProvider";
+import { createSceneId } from "./sceneState";
+import { isAbortError, throwIfAborted, sleep } from "./abort";
+import { parsePartialJson } from "./partialJson";
+import { acquireModelSlot, deferModel } from "./jobQueue";
+import { SubjectBox, padToAspect } from "./reframe";
+import { CacheHooks, imageCache, imageEditCache, speechCache } from "./mediaCache";
+
+// Per-call settings shared by every service function
+export interface RequestOptions {
+    apiKey?: string;
+    models?: ModelSettings;
+    model?: string; // Pin a single model and skip the fallback chain (e.g. to re-run with the same model)
+    signal?: AbortSignal; // Cancels the call (including retries and fallbacks); it rejects with an AbortError
+    bypassCache?: boolean; // Force a fresh media generation instead of reusing a cached identical one
+}
+
+export interface GeneratedMedia {
+    data: string; // Base64 WAV for speech, data URL for images
+    model: string;
+    seed?: number; // Images only
+}
+
+// Resolve the ordered list of models to try for a modality
+const modelChain = (modality: ModelModality, options: RequestOptions, primary?: string): string[] => {
+    if (options.model) return [options.model];
+    const chain = options.models?.[modality]?.length ? options.models[modality] : DEFAULT_MODELS[modality];
+    return primary ? [primary, ...chain.filter(m => m !== primary)] : chain;
+};
+
+// Image-generation models accept images but aren't meant for schema-constrained answers, so they
+// only come after the text/vision models of the vision chain (or this one, if it has none)
+const STRUCTURED_VISION_MODEL = 'gemini-2.5-flash';
+
+const structuredVisionChain = (options: RequestOptions): string[] => {
+    const chain = modelChain('vision', options);
+    if (options.model) return chain;
+    const isImageModel = (model: string) => (IMAGE_MODELS as string[]).includes(model);
+    const capable = chain.filter(model => !isImageModel(model));
+    return [...(capable.length ? capable : [STRUCTURED_VISION_MODEL]), ...chain.filter(isImageModel)];
+};
+
+// Try each model in turn, reporting which one succeeded. Each attempt waits for a slot in the
+// model's rate budget; a server retry hint pauses that model and moves on to the next one.
+// With cache hooks, a cached result from any model in the chain is returned before anything is requested.
+async function withFallback<T>(chain: string[], run: (model: string) => Promise<T>, signal?: AbortSignal, cache?: CacheHooks<T>): Promise<{ result: T; model: string }> {
+  const cached = await cache?.get(chain);
+  throwIfAborted(signal);
+  if (cached) return cached;
+  let lastError: any;
+  for (const model of chain) {
+    try {
+      await acquireModelSlot(model, signal);
+      const result = await run(model);
+      await cache?.put(model, result);
+      return { result, model };
+    } catch (error: any) {
+      if (isAbortError(error)) throw error; // Cancelled, not failed: don't try the next model
+      const hint = retryAfterMs(error);
+      if (hint !== null) deferModel(model, hint);
+      lastError = error;
+      if (model !== chain[chain.length - 1]) {
+        console.warn(`${model} failed: ${error.message}. Falling back.`);
+      }
+    }
+  }
+  throw lastError;
+}
 
-// Helper to get AI instance with dynamic key
-const getAI = (customKey?: string) => {
-    const key = customKey || process.env.API_KEY;
-    if (!key) throw new Error("Missing API Key. Please add one in Settings.");
-    return new GoogleGenAI({ apiKey: key });
+// Server-suggested wait from a rate-limit error: a Retry-After header, or Gemini's RetryInfo
+// ("retryDelay": "23s" / "Please retry in 23.4s") in the error body
+const retryAfterMs = (error: any): number | null => {
+  const header = error?.headers?.get?.('retry-after') ?? error?.retryAfter;
+  if (header !== undefined && header !== null && !isNaN(Number(header))) return Number(header) * 1000;
+  const match = String(error?.message || '').match(/retryDelay\W*(\d+(?:\.\d+)?)s|retry in (\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.ceil(parseFloat(match[1] || match[2]) * 1000) : null;
 };
 
-// Retry wrapper with exponential backoff
-async function callWithRetry<T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> {
+const MAX_RETRY_WAIT_MS = 60_000;
+
+// Retry wrapper with exponential backoff, or the server's retry hint when it gives one.
+// An aborted signal stops it between attempts and during the wait.
+async function callWithRetry<T>(fn: () => Promise<T>, signal?: AbortSignal, retries = 3, delay = 1000): Promise<T> {
+  throwIfAborted(signal);
   try {
     return await fn();
   } catch (error: any) {
-    if (retries === 0) throw error;
+    if (retries === 0 || isAbortError(error)) throw error;
     
     // Retry on 429 (Too Many Requests) or 503 (Service Unavailable)
     const isRetryable = 
@@ -22,9 +96,10 @@ async function callWithRetry<T>(fn: () => Promise<T>, retries = 3, delay = 1000)
       (error.message && (error.message.includes('429') || error.message.includes('503') || error.message.includes('overloaded')));
 
     if (isRetryable) {
-      console.warn(`API call failed, retrying in ${delay}ms... (${retries} retries left)`);
-      await new Promise(res => setTimeout(res, delay));
-      return callWithRetry(fn, retries - 1, delay * 2);
+      const wait = Math.min(retryAfterMs(error) ?? delay, MAX_RETRY_WAIT_MS);
+      console.warn(`API call failed, retrying in ${wait}ms... (${retries} retries left)`);
+      await sleep(wait, signal);
+      return callWithRetry(fn, signal, retries - 1, delay * 2);
     }
     throw error;
   }
@@ -37,7 +112,7 @@ function writeString(view: DataView, offset: number, string: string) {
   }
 }
 
-function addWavHeader(pcmData: Int16Array, sampleRate: number = 24000) {
+export function addWavHeader(pcmData: Int16Array, sampleRate: number = 24000) {
     const numChannels = 1;
     const bitsPerSample = 16;
     const byteRate = sampleRate * numChannels * (bitsPerSample / 8);
@@ -65,30 +140,93 @@ function addWavHeader(pcmData: Int16Array, sampleRate: number = 24000) {
     return buffer;
 }
 
-const outputSchema: Schema = {
+// Speakers are constrained to the narrator plus the known cast so audio can map each line to a voice
+const sceneSchemaFor = (speakers: string[]): Schema => ({
   type: Type.OBJECT,
   properties: {
-    title: { type: Type.STRING },
-    summary: { type: Type.STRING },
-    scenes: {
+    sceneNumber: { type: Type.INTEGER },
+    segments: {
       type: Type.ARRAY,
+      description: "The scene's narration split into ordered lines of narration and dialogue.",
       items: {
         type: Type.OBJECT,
         properties: {
-          sceneNumber: { type: Type.INTEGER },
-          narrative: { type: Type.STRING, description: "The story text for narration." },
-          characterNames: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Names of characters present in this scene." },
-          imagePrompt: { 
-              type: Type.STRING, 
-              description: "A standalone visual description. Describe the action and setting. Use Character Names." 
-          },
-          motionPrompt: { type: Type.STRING, description: "Technical instructions for camera movement and character action." }
+          speaker: { type: Type.STRING, enum: speakers, description: `"${NARRATOR}" for narration, or the exact name of the character speaking.` },
+          text: { type: Type.STRING, description: "The words to be read aloud. No quotation marks or speaker attributions." }
         },
-        required: ["sceneNumber", "narrative", "imagePrompt", "motionPrompt", "characterNames"]
+        required: ["speaker", "text"]
       }
+    },
+    characterNames: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Names of characters present in this scene." },
+    imagePrompt: { 
+        type: Type.STRING, 
+        description: "A standalone visual description. Describe the action and setting. Use Character Names." 
+    },
+    motionPrompt: { type: Type.STRING, description: "Technical instructions for camera movement and character action." }
+  },
+  required: ["sceneNumber", "segments", "imagePrompt", "motionPrompt", "characterNames"]
+});
+
+// Pin the scene array length so providers (and the mock) return exactly what was requested
+const storySchemaFor = (sceneCount: number, characters: Character[]): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    summary: { type: Type.STRING },
+    scenes: {
+      type: Type.ARRAY,
+      minItems: String(sceneCount),
+      maxItems: String(sceneCount),
+      items: sceneSchemaFor([NARRATOR, ...characters.map(c => c.name).filter(Boolean)])
     }
   },
   required: ["title", "summary", "scenes"]
+});
+
+// Joined segment text, kept on Scene.narrative for display and subtitles
+export const narrativeFromSegments = (segments: NarrativeSegment[]): string =>
+  segments.map(seg => seg.text.trim()).filter(Boolean).join(' ');
+
+// --- Language & Voice Direction ---
+const LANGUAGE_NAMES: Record<Language, string> = {
+  ar: 'Arabic', en: 'English', fr: 'French', es: 'Spanish', de: 'German'
+};
+
+// Story-writing instructions per Arabic dialect. 'neutral' falls back to widely understood Fusha.
+const DIALECT_INSTRUCTIONS: Record<VoiceConfig['accent'], string> = {
+  fusha: 'Write ALL narration in Modern Standard Arabic (الفصحى) with correct classical grammar and no colloquial words.',
+  egyptian: 'Write ALL narration in Egyptian Colloquial Arabic (العامية المصرية / Masri). Use Egyptian vocabulary and grammar (e.g. "دلوقتي", "إزاي", "عايز", "مش", "بتاع") — NOT Fusha.',
+  khaleeji: 'Write ALL narration in Gulf Arabic (اللهجة الخليجية / Khaleeji). Use Gulf vocabulary and grammar (e.g. "الحين", "شلون", "وايد", "أبي") — NOT Fusha.',
+  shami: 'Write ALL narration in Levantine Arabic (اللهجة الشامية / Shami). Use Levantine vocabulary and grammar (e.g. "هلق", "كيفك", "بدي", "شو") — NOT Fusha.',
+  maghrebi: 'Write ALL narration in Maghrebi Arabic (الدارجة المغاربية / Darija). Use Maghrebi vocabulary and grammar (e.g. "دابا", "كيفاش", "بغيت", "واش") — NOT Fusha.',
+  neutral: 'Write narration in clear, simple Modern Standard Arabic that any Arabic speaker understands.',
+};
+
+const TONE_DIRECTIONS: Record<VoiceConfig['tone'], string> = {
+  enthusiastic: 'an enthusiastic, energetic',
+  sad: 'a sad, melancholic',
+  calm: 'a calm, soothing',
+  mysterious: 'a mysterious, hushed',
+  dramatic: 'a dramatic, intense',
+};
+
+const ACCENT_DIRECTIONS: Record<Exclude<VoiceConfig['accent'], 'neutral'>, string> = {
+  fusha: 'Modern Standard Arabic (Fusha) pronunciation',
+  egyptian: 'an Egyptian Arabic accent',
+  khaleeji: 'a Gulf (Khaleeji) Arabic accent',
+  shami: 'a Levantine (Shami) Arabic accent',
+  maghrebi: 'a Maghrebi (North African) Arabic accent',
+};
+
+// Natural-language performance direction understood by the TTS model
+const speechStyleFor = (voice: VoiceConfig): string => {
+  let style = `Read the following in ${TONE_DIRECTIONS[voice.tone] || 'a natural'} tone`;
+  if (voice.language === 'ar' && voice.accent !== 'neutral') {
+    style += ` with ${ACCENT_DIRECTIONS[voice.accent]}`;
+  } else if (voice.language !== 'ar') {
+    style += `, in ${LANGUAGE_NAMES[voice.language]}`;
+  }
+  return style;
 };
 
 // Ideas Schema for Auto-fill
@@ -123,29 +261,25 @@ const charactersSchema: Schema = {
     required: ["characters"]
 };
 
-export const generateStoryIdeas = async (category: string, lang: string, apiKey?: string): Promise<Partial<StoryConfig>> => {
+export const generateStoryIdeas = async (category: string, lang: string, options: RequestOptions = {}): Promise<Partial<StoryConfig>> => {
     return callWithRetry(async () => {
-        const ai = getAI(apiKey);
+        const provider = getProvider(options.apiKey);
         const prompt = `Generate creative story details for a '${category}' story. Language: ${lang}. Make the setting vivid.`;
         
-        const response = await ai.models.generateContent({
-            model: 'gemini-3-flash-preview',
-            contents: prompt,
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: ideasSchema,
-                temperature: 0.9,
-            }
-        });
-        
-        if (!response.text) throw new Error("No ideas generated.");
-        return JSON.parse(response.text);
-    });
+        const { result } = await withFallback(modelChain('text', options), model => provider.generateJson<Partial<StoryConfig>>({
+            model,
+            signal: options.signal,
+            prompt,
+            schema: ideasSchema,
+            temperature: 0.9,
+        }), options.signal);
+        return result;
+    }, options.signal);
 };
 
-export const generateCharacterProfiles = async (premise: string, setting: string, count: number, lang: string, apiKey?: string): Promise<Character[]> => {
+export const generateCharacterProfiles = async (premise: string, setting: string, count: number, lang: string, options: RequestOptions = {}): Promise<Character[]> => {
     return callWithRetry(async () => {
-        const ai = getAI(apiKey);
+        const provider = getProvider(options.apiKey);
         const languageName = lang === 'ar' ? 'Arabic' : 'English';
         
         const prompt = `Create ${count} unique characters for a story with Premise: "${premise}" and Setting: "${setting}".
@@ -159,76 +293,151 @@ export const generateCharacterProfiles = async (premise: string, setting: string
         - Character Names MUST be in ${languageName}.
         - Descriptions MUST be in ${languageName}.`;
 
-        const response = await ai.models.generateContent({
-            model: 'gemini-3-flash-preview',
-            contents: prompt,
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: charactersSchema,
-                temperature: 0.9,
-            }
-        });
-
-        if (!response.text) throw new Error("No characters generated.");
-        const data = JSON.parse(response.text);
+        const { result: data } = await withFallback(modelChain('text', options), model => provider.generateJson<{ characters: any[] }>({
+            model,
+            signal: options.signal,
+            prompt,
+            schema: charactersSchema,
+            temperature: 0.9,
+        }), options.signal);
         return data.characters.map((c: any, index: number) => ({
             id: `char_${Date.now()}_${index}`,
             name: c.name,
             role: c.role,
             description: c.description
         }));
-    });
+    }, options.signal);
 };
 
-export const analyzeImage = async (base64Image: string, lang: string, apiKey?: string): Promise<string> => {
+export const analyzeImage = async (base64Image: string, lang: string, options: RequestOptions = {}): Promise<string> => {
     return callWithRetry(async () => {
-        const ai = getAI(apiKey);
+        const provider = getProvider(options.apiKey);
         const languageInstruction = lang === 'ar' ? "Output the description in Arabic." : "Output the description in English.";
         
         const prompt = `Analyze this character image. Create a concise but highly descriptive prompt that captures their key visual signature. Include: Gender, Age, Hair Style/Color, Eye Color, Distinctive Facial Features, Clothing Style, and any unique accessories. 
         ${languageInstruction}
         Output ONLY the descriptive prompt text.`;
         
-        // Remove header if present
-        const cleanBase64 = base64Image.split(',')[1] || base64Image;
-
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image', // Good for vision
-            contents: {
-                parts: [
-                    { inlineData: { mimeType: 'image/jpeg', data: cleanBase64 } },
-                    { text: prompt }
-                ]
+        const { result: description } = await withFallback(modelChain('vision', options), model => provider.analyzeImage({
+            model,
+            signal: options.signal,
+            prompt,
+            image: toInlineImage(base64Image)
+        }), options.signal);
+
+        return description || "Detailed character description.";
+    }, options.signal);
+};
+
+/**
+ * Asks the vision model where the scene's characters (or, failing that, its main subject) are.
+ * Returns a box in image fractions, or null when the answer can't be read as one.
+ */
+export const locateSubjects = async (imageUrl: string, characterNames: string[], options: RequestOptions = {}): Promise<SubjectBox | null> => {
+    return callWithRetry(async () => {
+        const provider = getProvider(options.apiKey);
+        const who = characterNames.length ? `the characters (${characterNames.join(', ')})` : 'the main subject';
+        const prompt = `Find ${who} in this image. Reply with ONLY a JSON object {"x": number, "y": number, "width": number, "height": number} giving one box that contains all of them, as fractions of the image width and height (0 to 1, origin top-left).`;
+
+        const { result } = await withFallback(modelChain('vision', options), model => provider.analyzeImage({
+            model,
+            signal: options.signal,
+            prompt,
+            image: toInlineImage(imageUrl, 'image/png')
+        }), options.signal);
+
+        try {
+            const box = JSON.parse(result.match(/\{[\s\S]*\}/)?.[0] || '');
+            const values = [box.x, box.y, box.width, box.height];
+            if (!values.every(v => typeof v === 'number' && v >= 0 && v <= 1) || box.width === 0 || box.height === 0) return null;
+            return { x: box.x, y: box.y, width: Math.min(box.width, 1 - box.x), height: Math.min(box.height, 1 - box.y) };
+        } catch {
+            return null;
+        }
+    }, options.signal);
+};
+
+const consistencySchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        issues: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    kind: { type: Type.STRING, enum: ['mismatch', 'missing', 'extra'] },
+                    character: { type: Type.STRING, description: "Name of the character concerned; empty for an extra person" },
+                    detail: { type: Type.STRING, description: "What differs, concretely (e.g. 'hair is blond, should be black')" }
+                },
+                required: ['kind', 'detail']
             }
-        });
+        }
+    },
+    required: ['issues']
+};
 
-        return response.text?.trim() || "Detailed character description.";
-    });
+/**
+ * Reviews a scene image against the descriptions of the characters meant to be in it and lists
+ * visible discrepancies: wrong features or costume, a character who is absent, or an extra person.
+ */
+export const checkCharacterConsistency = async (imageUrl: string, characters: Character[], options: RequestOptions = {}): Promise<{ issues: ConsistencyIssue[]; model: string }> => {
+    return callWithRetry(async () => {
+        const provider = getProvider(options.apiKey);
+        const prompt = `You are a continuity supervisor for an illustrated story. The image should show exactly these characters:
+${characters.map(c => `- ${c.name}: ${c.description}`).join('\n')}
+
+Compare the image with the descriptions. Report only clear, visible discrepancies:
+- "mismatch": a character is present but differs from the description (hair colour or style, age, skin tone, clothing, accessories, ...)
+- "missing": a listed character does not appear
+- "extra": a person appears who is none of the listed characters (background crowds in a public place are fine)
+Ignore pose, expression, lighting and art style. If everything matches, return an empty list.`;
+
+        const { result, model } = await withFallback(structuredVisionChain(options), model => provider.analyzeImageJson<{ issues: ConsistencyIssue[] }>({
+            model,
+            signal: options.signal,
+            prompt,
+            image: toInlineImage(imageUrl, 'image/png'),
+            schema: consistencySchema
+        }), options.signal);
+
+        // Normalise names to the cast's spelling so the UI can match them up
+        const nameOf = (name?: string) => characters.find(c => c.name.toLowerCase() === name?.trim().toLowerCase())?.name ?? (name?.trim() || undefined);
+        const issues = (result.issues || [])
+            .filter(issue => ['mismatch', 'missing', 'extra'].includes(issue.kind) && issue.detail)
+            .map(issue => ({ kind: issue.kind, detail: issue.detail, character: issue.kind === 'extra' ? undefined : nameOf(issue.character) }));
+        return { issues, model };
+    }, options.signal);
 };
 
-export const generateStory = async (
-    config: StoryConfig, 
-    voiceConfig: VoiceConfig, 
-    style: ImageStyleConfig,
-    apiKey?: string
-): Promise<StoryOutput> => {
-  return callWithRetry(async () => {
-      const ai = getAI(apiKey);
-      
-      let dialectSystemInstruction = '';
-      if (config.language === 'ar') {
-         // ... (Dialect logic remains same)
-         dialectSystemInstruction = `You are an expert Arabic storyteller. Write narration in the requested dialect.`;
-      } else {
-          dialectSystemInstruction = `Write in ${config.language}.`;
-      }
-      
-      // Construct Character Profiles Text
-      const characterProfiles = config.characters.map(c => 
-          `- Name: ${c.name} (${c.role})\n  Visual Signature: ${c.description}`
-      ).join('\n');
+/** Turns review findings into an instruction appended to the scene prompt for a corrective re-run. */
+export const correctiveNote = (issues: ConsistencyIssue[]): string => `
+*** CORRECTIONS (a previous attempt got these wrong; fix them) ***
+${issues.map(issue => issue.kind === 'missing'
+    ? `- ${issue.character || 'A character'} was missing: they MUST appear in the image. ${issue.detail}`
+    : issue.kind === 'extra'
+        ? `- Do NOT add anyone beyond the listed characters. ${issue.detail}`
+        : `- ${issue.character ? `${issue.character}: ` : ''}${issue.detail}. Follow the character description exactly.`).join('\n')}
+`;
 
-      const prompt = `
+const storySystemInstruction = (config: StoryConfig, voiceConfig: VoiceConfig): string => {
+  let instruction = '';
+  if (config.language === 'ar') {
+     instruction = `You are an expert Arabic storyteller. ${DIALECT_INSTRUCTIONS[voiceConfig.accent] || DIALECT_INSTRUCTIONS.neutral}`;
+  } else {
+      instruction = `You are an expert storyteller. Write the narration in ${LANGUAGE_NAMES[config.language] || config.language}.`;
+  }
+  instruction += ` The narration should carry ${TONE_DIRECTIONS[voiceConfig.tone] || 'a natural'} tone.`;
+  return instruction;
+};
+
+// Settings, style and per-field rules shared by whole-story and single-scene prompts
+const storyBrief = (config: StoryConfig, style: ImageStyleConfig): string => {
+  // Construct Character Profiles Text
+  const characterProfiles = config.characters.map(c => 
+      `- Name: ${c.name} (${c.role})\n  Visual Signature: ${c.description}`
+  ).join('\n');
+
+  return `
         STORY SETTINGS:
         - Genre: ${config.category}
         - Premise: ${config.premise}
@@ -246,7 +455,10 @@ export const generateStory = async (
 
         INSTRUCTIONS:
         1. **SEPARATION OF CONCERNS**:
-           - **Narrative**: Story text for audio. Conversational, dialect-aware.
+           - **Segments**: Story text for audio, split into ordered lines. Conversational, dialect-aware.
+             - Use speaker "${NARRATOR}" for narration.
+             - When a character speaks, give their words their own segment with the character's exact name as speaker.
+             - Do not wrap dialogue in quotes or add "he said" attributions; the voice change carries it.
            - **ImagePrompt**: ENGLISH ONLY.
              - **MANDATORY**: Start every image prompt with "${style.artStyle} style, ${style.lighting} lighting".
              - Describe the scene's action and composition.
@@ -256,77 +468,405 @@ export const generateStory = async (
              - Must align with pacing '${config.pacing}'.
              - Must consider the preferred angle '${style.cameraAngle}'. 
              - Examples: "Slow pan right", "Tracking shot", "Push in", "Static camera with moving elements".
+  `;
+};
+
+// Model output -> Scene: derive the narrative and assign an id
+const toScene = (raw: Omit<Scene, 'id' | 'narrative'> & Partial<Scene>): Scene => ({
+  ...raw,
+  id: createSceneId(),
+  narrative: narrativeFromSegments(raw.segments || []),
+});
+
+// Story so far from a streaming response. Ids are reused by position so scenes already
+// shown keep their identity as later ones arrive.
+const partialStory = (raw: unknown, previous: StoryOutput): StoryOutput => {
+  const data = (raw && typeof raw === 'object' ? raw : {}) as Partial<StoryOutput>;
+  const scenes = Array.isArray(data.scenes) ? data.scenes : [];
+  return {
+      title: typeof data.title === 'string' ? data.title : '',
+      summary: typeof data.summary === 'string' ? data.summary : '',
+      scenes: scenes.map((scene, i) => previous.scenes[i] || toScene(scene)),
+  };
+};
 
-        Generate exactly ${config.sceneCount} scenes.
+/**
+ * Streams the script; onPartial receives the title, summary and every scene completed so far.
+ * Aborting options.signal stops generation and resolves with that partial story instead of
+ * rejecting, so the caller can keep what was written.
+ */
+export const generateStory = async (
+    config: StoryConfig, 
+    voiceConfig: VoiceConfig, 
+    style: ImageStyleConfig,
+    options: RequestOptions = {},
+    onPartial?: (story: StoryOutput) => void
+): Promise<StoryOutput> => {
+  const empty: StoryOutput = { title: '', summary: '', scenes: [] };
+  let partial = empty;
+  try {
+    return await callWithRetry(async () => {
+        const provider = getProvider(options.apiKey);
+        const prompt = `${storyBrief(config, style)}
+          Generate exactly ${config.sceneCount} scenes.
+        `;
+
+        const { result } = await withFallback(modelChain('text', options), model => {
+          partial = empty; // A retry or fallback model starts over
+          return provider.streamJson<StoryOutput>({
+            model,
+            prompt,
+            systemInstruction: storySystemInstruction(config, voiceConfig),
+            schema: storySchemaFor(config.sceneCount, config.characters),
+            temperature: 0.85,
+            signal: options.signal,
+            onText: text => {
+              let next: StoryOutput;
+              try {
+                next = partialStory(parsePartialJson(text), partial);
+              } catch {
+                return; // Unparseable so far (e.g. a stray prefix); the final parse reports real errors
+              }
+              if (next.scenes.length === partial.scenes.length && next.title === partial.title && next.summary === partial.summary) return;
+              partial = next;
+              onPartial?.(partial);
+            },
+          });
+        }, options.signal);
+        return { ...result, scenes: result.scenes.map((scene, i) => ({ ...toScene(scene), id: partial.scenes[i]?.id ?? createSceneId() })) };
+    }, options.signal);
+  } catch (error) {
+    if (isAbortError(error) && options.signal?.aborted) return partial;
+    throw error;
+  }
+};
+
+// --- Chaptered (long-form) generation ---
+
+export const SCENES_PER_CHAPTER = 5;
+
+const outlineSchemaFor = (chapterCount: number): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    summary: { type: Type.STRING },
+    chapters: {
+      type: Type.ARRAY,
+      minItems: String(chapterCount),
+      maxItems: String(chapterCount),
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          act: { type: Type.INTEGER, description: "Act this chapter belongs to (1 = setup, 2 = confrontation, 3 = resolution)." },
+          title: { type: Type.STRING },
+          synopsis: { type: Type.STRING, description: "What happens in this chapter, in 2-3 sentences." }
+        },
+        required: ["act", "title", "synopsis"]
+      }
+    }
+  },
+  required: ["title", "summary", "chapters"]
+});
+
+const chapterSchemaFor = (sceneCount: number, characters: Character[]): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    scenes: {
+      type: Type.ARRAY,
+      minItems: String(sceneCount),
+      maxItems: String(sceneCount),
+      items: sceneSchemaFor([NARRATOR, ...characters.map(c => c.name).filter(Boolean)])
+    },
+    summarySoFar: { type: Type.STRING, description: "Summary of the whole story up to the end of this chapter, for continuity." }
+  },
+  required: ["scenes", "summarySoFar"]
+});
+
+// Spread scenes evenly, earlier chapters taking the remainder
+const chapterSceneCounts = (sceneCount: number, chapterCount: number): number[] =>
+  Array.from({ length: chapterCount }, (_, i) => Math.floor(sceneCount / chapterCount) + (i < sceneCount % chapterCount ? 1 : 0));
+
+export const generateOutline = async (
+    config: StoryConfig,
+    voiceConfig: VoiceConfig,
+    style: ImageStyleConfig,
+    options: RequestOptions = {}
+): Promise<StoryOutline> => {
+  return callWithRetry(async () => {
+      const provider = getProvider(options.apiKey);
+      const chapterCount = Math.max(1, Math.ceil(config.sceneCount / SCENES_PER_CHAPTER));
+      const prompt = `${storyBrief(config, style)}
+        TASK: Plan a long-form story of ${config.sceneCount} scenes as ${chapterCount} chapters grouped into three acts.
+        Give each chapter a title and a short synopsis. Do not write the scenes yet.
       `;
 
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: prompt,
-        config: {
-          systemInstruction: dialectSystemInstruction,
-          responseMimeType: 'application/json',
-          responseSchema: outputSchema,
-          temperature: 0.85,
-        }
-      });
+      const { result } = await withFallback(modelChain('text', options), model => provider.generateJson<{ title: string; summary: string; chapters: Omit<OutlineChapter, 'sceneCount'>[] }>({
+        model,
+        signal: options.signal,
+        prompt,
+        systemInstruction: storySystemInstruction(config, voiceConfig),
+        schema: outlineSchemaFor(chapterCount),
+        temperature: 0.85,
+      }), options.signal);
+      const counts = chapterSceneCounts(config.sceneCount, result.chapters.length);
+      return { ...result, chapters: result.chapters.map((chapter, i) => ({ ...chapter, sceneCount: counts[i] })) };
+  }, options.signal);
+};
+
+/** Writes the scenes of one outline chapter, continuing from the running summary. */
+export const generateChapter = async (
+    config: StoryConfig,
+    voiceConfig: VoiceConfig,
+    style: ImageStyleConfig,
+    outline: StoryOutline,
+    chapterIndex: number,
+    runningSummary: string,
+    options: RequestOptions = {}
+): Promise<{ scenes: Scene[]; summarySoFar: string }> => {
+  return callWithRetry(async () => {
+      const provider = getProvider(options.apiKey);
+      const chapter = outline.chapters[chapterIndex];
+      const plan = outline.chapters.map((c, i) =>
+          `${i === chapterIndex ? '>>> ' : ''}Chapter ${i + 1} (Act ${c.act}) "${c.title}": ${c.synopsis}`
+      ).join('\n');
+
+      const prompt = `${storyBrief(config, style)}
+        STORY: "${outline.title}" — ${outline.summary}
+        OUTLINE:
+        ${plan}
+
+        STORY SO FAR: ${runningSummary || 'Nothing yet; this is the opening chapter.'}
+
+        TASK: Write Chapter ${chapterIndex + 1} "${chapter.title}" as exactly ${chapter.sceneCount} scenes.
+        Continue directly from the story so far and keep every character consistent with their profile.
+        Then summarise the whole story up to the end of this chapter.
+      `;
+
+      const { result } = await withFallback(modelChain('text', options), model => provider.generateJson<{ scenes: Scene[]; summarySoFar: string }>({
+        model,
+        signal: options.signal,
+        prompt,
+        systemInstruction: storySystemInstruction(config, voiceConfig),
+        schema: chapterSchemaFor(chapter.sceneCount, config.characters),
+        temperature: 0.85,
+      }), options.signal);
+      return { ...result, scenes: result.scenes.map(toScene) };
+  }, options.signal);
+};
+
+/**
+ * Runs (or resumes) a chaptered generation. onProgress receives the draft after the outline and
+ * after every chapter; when a chapter fails the error is thrown and the last draft reported is
+ * the point to resume from.
+ */
+export const generateChapteredStory = async (
+    config: StoryConfig,
+    voiceConfig: VoiceConfig,
+    style: ImageStyleConfig,
+    draft: StoryDraft | null,
+    onProgress: (draft: StoryDraft) => void,
+    options: RequestOptions = {}
+): Promise<StoryOutput> => {
+  let current: StoryDraft = draft || {
+      outline: await generateOutline(config, voiceConfig, style, options),
+      scenes: [],
+      completedChapters: 0,
+      runningSummary: '',
+  };
+  onProgress(current);
+
+  for (let i = current.completedChapters; i < current.outline.chapters.length; i++) {
+      const chapter = await generateChapter(config, voiceConfig, style, current.outline, i, current.runningSummary, options);
+      current = {
+          ...current,
+          scenes: [...current.scenes, ...chapter.scenes].map((scene, n) => ({ ...scene, sceneNumber: n + 1 })),
+          completedChapters: i + 1,
+          runningSummary: chapter.summarySoFar,
+      };
+      onProgress(current);
+  }
+
+  return { title: current.outline.title, summary: current.outline.summary, scenes: current.scenes };
+};
+
+/**
+ * Writes one scene with the rest of the story as context. 'replace' rewrites the scene at
+ * `index`; 'insert' writes a new scene to go before the scene currently at `index`
+ * (index === scenes.length appends). Renumbering is left to the caller.
+ */
+export const generateScene = async (
+    config: StoryConfig,
+    voiceConfig: VoiceConfig,
+    style: ImageStyleConfig,
+    story: StoryOutput,
+    index: number,
+    mode: 'replace' | 'insert',
+    options: RequestOptions = {}
+): Promise<Scene> => {
+  return callWithRetry(async () => {
+      const provider = getProvider(options.apiKey);
+      const outline = story.scenes.map((scene, i) => {
+          const marker = mode === 'insert' && i === index ? '>>> [NEW SCENE GOES HERE]\n' : '';
+          const label = mode === 'replace' && i === index ? `Scene ${i + 1} (TO BE REWRITTEN)` : `Scene ${i + 1}`;
+          return `${marker}${label}: ${scene.narrative}`;
+      }).join('\n') + (mode === 'insert' && index >= story.scenes.length ? '\n>>> [NEW SCENE GOES HERE]' : '');
+
+      const task = mode === 'replace'
+          ? `Rewrite Scene ${index + 1} with fresh wording and visuals. It must still connect the scene before it to the scene after it.`
+          : `Write ONE new scene for the position marked [NEW SCENE GOES HERE]. It must bridge the surrounding scenes without repeating them.`;
+
+      const prompt = `${storyBrief(config, style)}
+        THE STORY SO FAR — "${story.title}": ${story.summary}
+        ${outline}
+
+        TASK: ${task}
+      `;
 
-      if (!response.text) throw new Error("No text returned from Gemini.");
-      return JSON.parse(response.text) as StoryOutput;
-  });
+      const { result } = await withFallback(modelChain('text', options), model => provider.generateJson<Scene>({
+        model,
+        signal: options.signal,
+        prompt,
+        systemInstruction: storySystemInstruction(config, voiceConfig),
+        schema: sceneSchemaFor([NARRATOR, ...config.characters.map(c => c.name).filter(Boolean)]),
+        temperature: 0.85,
+      }), options.signal);
+      return toScene(result);
+  }, options.signal);
+};
+
+const voiceNameFor = (voiceType: VoiceConfig['voiceType']): string => {
+    switch (voiceType) {
+        case 'man_deep': return 'Charon';
+        case 'man_soft': return 'Puck';
+        case 'man_drama': return 'Fenrir';
+        case 'woman': return 'Kore';
+        case 'child': return 'Puck';
+        default: return 'Charon';
+    }
+};
+
+// Narrator lines use the project voice; character lines swap in the character's own voice type
+export const voiceForSpeaker = (speaker: string, voice: VoiceConfig, characters: Character[]): VoiceConfig => {
+    if (speaker === NARRATOR) return voice;
+    const key = speaker.trim().toLowerCase();
+    const character = characters.find(c => c.name.trim().toLowerCase() === key);
+    return character?.voiceType ? { ...voice, voiceType: character.voiceType } : voice;
+};
+
+const synthesizePcm = async (text: string, voice: VoiceConfig, options: RequestOptions) => {
+    const provider = getProvider(options.apiKey);
+    const request = {
+        text,
+        voiceName: voiceNameFor(voice.voiceType),
+        styleInstruction: speechStyleFor(voice)
+    };
+    const { result, model } = await withFallback(modelChain('speech', options),
+        model => provider.generateSpeech({ ...request, model, signal: options.signal }),
+        options.signal, speechCache(request, options.bypassCache));
+    return { ...result, model };
+};
+
+export const encodeWavBase64 = (pcm: Int16Array, sampleRate: number): string => {
+    const wavBytes = new Uint8Array(addWavHeader(pcm, sampleRate));
+    let binary = '';
+    const wavLen = wavBytes.byteLength;
+    const chunkSize = 8192;
+    for (let i = 0; i < wavLen; i += chunkSize) {
+        const chunk = wavBytes.subarray(i, Math.min(i + chunkSize, wavLen));
+        binary += String.fromCharCode.apply(null, Array.from(chunk));
+    }
+    return btoa(binary);
 };
 
-export const generateSpeech = async (text: string, voiceType: string, apiKey?: string): Promise<string> => {
-    // ... (Speech logic remains unchanged)
+export const generateSpeech = async (text: string, voice: VoiceConfig, options: RequestOptions = {}): Promise<GeneratedMedia> => {
     return callWithRetry(async () => {
-        const ai = getAI(apiKey);
-        let voiceName = 'Puck'; 
-        switch (voiceType) {
-            case 'man_deep': voiceName = 'Charon'; break; 
-            case 'man_soft': voiceName = 'Puck'; break; 
-            case 'man_drama': voiceName = 'Fenrir'; break;
-            case 'woman': voiceName = 'Kore'; break;
-            case 'child': voiceName = 'Puck'; break;
-            default: voiceName = 'Charon';
+        const { pcm, sampleRate, model } = await synthesizePcm(text, voice, options);
+        return { data: encodeWavBase64(pcm, sampleRate), model };
+    }, options.signal);
+};
+
+// Pause inserted between consecutive lines of a multi-voice scene
+const SEGMENT_GAP_SECONDS = 0.3;
+
+/**
+ * Renders a scene's narration. Each segment is spoken with its speaker's voice and the clips
+ * are joined into a single WAV. Scenes without segments are read by the narrator.
+ */
+export const generateSceneAudio = async (
+    scene: Scene,
+    voice: VoiceConfig,
+    characters: Character[],
+    options: RequestOptions = {}
+): Promise<GeneratedMedia> => {
+    const lines = (scene.segments?.length ? scene.segments : [{ speaker: NARRATOR, text: scene.narrative }])
+        .filter(seg => seg.text.trim());
+
+    // Merge adjacent lines that share a voice to save TTS calls
+    const runs: { voice: VoiceConfig; text: string }[] = [];
+    for (const seg of lines) {
+        const segVoice = voiceForSpeaker(seg.speaker, voice, characters);
+        const prev = runs[runs.length - 1];
+        if (prev && prev.voice.voiceType === segVoice.voiceType) {
+            prev.text += `\n${seg.text}`;
+        } else {
+            runs.push({ voice: segVoice, text: seg.text });
         }
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash-preview-tts",
-            contents: [{ parts: [{ text: text }] }],
-            config: { responseModalities: [Modality.AUDIO], speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voiceName } } } },
-        });
-        const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-        if (!base64Audio) throw new Error("No audio");
-        // Decode and re-encode logic...
-        const binaryString = atob(base64Audio);
-        const len = binaryString.length;
-        const bytes = new Uint8Array(len);
-        for (let i = 0; i < len; i++) bytes[i] = binaryString.charCodeAt(i);
-        const pcmData = new Int16Array(bytes.buffer);
-        const wavBuffer = addWavHeader(pcmData, 24000);
-        const wavBytes = new Uint8Array(wavBuffer);
-        let binary = '';
-        const wavLen = wavBytes.byteLength;
-        const chunkSize = 8192;
-        for (let i = 0; i < wavLen; i += chunkSize) {
-            const chunk = wavBytes.subarray(i, Math.min(i + chunkSize, wavLen));
-            binary += String.fromCharCode.apply(null, Array.from(chunk));
+    }
+    if (runs.length === 0) throw new Error("Scene has no narration.");
+
+    const clips: Int16Array[] = [];
+    let sampleRate = 24000;
+    let firstModel = '';
+    for (const run of runs) {
+        // Retry per line so one flaky call doesn't re-bill the whole scene
+        const clip = await callWithRetry(() => synthesizePcm(run.text, run.voice, options), options.signal);
+        if (!firstModel) {
+            firstModel = clip.model;
+            sampleRate = clip.sampleRate;
         }
-        return btoa(binary);
+        clips.push(clip.pcm);
+    }
+
+    const gap = Math.round(sampleRate * SEGMENT_GAP_SECONDS);
+    const total = clips.reduce((sum, c) => sum + c.length, 0) + gap * (clips.length - 1);
+    const pcm = new Int16Array(total);
+    let offset = 0;
+    clips.forEach((clip, i) => {
+        pcm.set(clip, offset);
+        offset += clip.length + (i < clips.length - 1 ? gap : 0);
     });
+
+    return { data: encodeWavBase64(pcm, sampleRate), model: firstModel };
 };
 
+// Only the Pro image model accepts an explicit output size; the rest return their native ~1K
+export const supportsImageSize = (model: string): boolean => model.includes('pro');
+
+// A character conditions scene images on its photo unless the user opted for text only
+export const usesReferenceImage = (c: Character): boolean =>
+    !!c.image && (c.conditioning ?? 'reference') === 'reference';
+
 export const generateImage = async (
     basePrompt: string, 
     settings: MediaSettings, 
     style: ImageStyleConfig,
-    apiKey?: string,
-    activeCharacters: Character[] = [] 
-): Promise<string> => {
+    options: RequestOptions = {},
+    activeCharacters: Character[] = [],
+    pinnedSeed?: number, // Variation k uses pinnedSeed + k; without one every take gets a random seed
+    variation = 0
+): Promise<GeneratedMedia> => {
     return callWithRetry(async () => {
-        const ai = getAI(apiKey);
+        const provider = getProvider(options.apiKey);
 
         // Define a Rigid Structure for the Prompt to prevent Style Drift
         
+        // Characters whose reference photo is sent alongside the prompt
+        const referenced = activeCharacters.filter(usesReferenceImage);
+        const referenceImages: ReferenceImage[] = referenced.map(c => ({
+            label: c.name,
+            image: toInlineImage(c.image!)
+        }));
+
         // 1. Character Block
         const characterBlock = activeCharacters.length > 0 
             ? `
@@ -335,7 +875,8 @@ The following characters are present in the scene. You MUST render them EXACTLY
 If multiple characters are listed, ALL must appear.
 ${activeCharacters.map(c => `
 --- CHARACTER: ${c.name} ---
-${c.description}
+${c.description}${usesReferenceImage(c) ? `
+(A reference image labelled "${c.name}" is attached. Match their face, hair and costume to it exactly; take pose and framing from the scene.)` : ''}
 `).join('\n')}
 ` 
             : '';
@@ -373,42 +914,56 @@ INSTRUCTION:
 3. Ensure the scene content actions are depicted clearly.
 `;
 
-        // Helper to run generation
-        const runGeneration = async (model: string, config: any) => {
-             const response = await ai.models.generateContent({
-                model,
-                contents: { parts: [{ text: finalPrompt }] },
-                config
-            });
-
-            for (const cand of response.candidates || []) {
-                for (const part of cand.content.parts) {
-                    if (part.inlineData) {
-                        return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-                    }
-                }
-            }
-            throw new Error("No image data returned.");
+        // Selected model first, then the configured fallbacks
+        const seed = pinnedSeed !== undefined ? pinnedSeed + variation : Math.floor(Math.random() * 2 ** 31);
+        const request = { prompt: finalPrompt, aspectRatio: settings.aspectRatio, imageSize: settings.resolution || '1K', referenceImages };
+        // A random seed would make every key unique, so unpinned takes are keyed by variation index
+        // (numbered per scene by the caller): the same take of an unchanged scene is served from the cache
+        const cacheKey = { ...request, ...(pinnedSeed !== undefined ? { seed } : { variation }) };
+        const { result, model } = await withFallback(modelChain('image', options, settings.imageModel), model => provider.generateImage({
+            ...request,
+            seed,
+            model,
+            signal: options.signal,
+            imageSize: supportsImageSize(model) ? request.imageSize : undefined
+        }).then(url => ({ url, seed })), options.signal, imageCache(cacheKey, options.bypassCache));
+        return { data: result.url, model, seed: result.seed };
+    }, options.signal);
+};
+
+/**
+ * Edits an existing scene image by instruction ("remove the lamp"). With a mask (a PNG data URL,
+ * white where changes are allowed) the rest of the frame is kept; without one the model decides.
+ */
+export const editImage = async (
+    imageUrl: string,
+    instruction: string,
+    mask: string | undefined,
+    settings: MediaSettings,
+    options: RequestOptions = {}
+): Promise<GeneratedMedia> => {
+    return callWithRetry(async () => {
+        const provider = getProvider(options.apiKey);
+        const request = {
+            instruction,
+            image: toInlineImage(imageUrl, 'image/png'),
+            mask: mask ? toInlineImage(mask, 'image/png') : undefined,
+            aspectRatio: settings.aspectRatio
         };
-        
-        // Attempt 1: Gemini 3 Pro (High Quality, Paid)
-        try {
-             const config: any = {
-                 imageConfig: {
-                     aspectRatio: settings.aspectRatio,
-                     imageSize: "1K" 
-                 }
-            };
-            return await runGeneration('gemini-3-pro-image-preview', config);
-        } catch (e: any) {
-             console.warn(`Gemini 3 Pro failed: ${e.message}. Falling back to Flash.`);
-             // Fallback: Gemini 2.5 Flash
-             const flashConfig: any = {
-                 imageConfig: {
-                     aspectRatio: settings.aspectRatio
-                 }
-             };
-             return await runGeneration('gemini-2.5-flash-image', flashConfig);
-        }
-    });
-};
\ No newline at end of file
+        const { result, model } = await withFallback(modelChain('image', options, settings.imageModel),
+            model => provider.editImage({ ...request, model, signal: options.signal }),
+            options.signal, imageEditCache(request, options.bypassCache));
+        return { data: result, model };
+    }, options.signal);
+};
+
+/** Extends an image to another aspect ratio: the original is kept in the middle and the model paints the rest. */
+export const outpaintImage = async (
+    imageUrl: string,
+    aspectRatio: AspectRatio,
+    settings: MediaSettings,
+    options: RequestOptions = {}
+): Promise<GeneratedMedia> => {
+    const { image, mask } = await padToAspect(imageUrl, aspectRatio);
+    return editImage(image, "Extend the scene outward into the masked border so the picture fills the whole frame. Continue the background, lighting and perspective seamlessly; add no new characters or text.", mask, { ...settings, aspectRatio }, options);
+};
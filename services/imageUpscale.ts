@@ -0,0 +1,51 @@
+import { ImageResolution } from "../types";
+
+// Local (canvas) upscaling for images that came back smaller than the requested resolution,
+// e.g. from a fallback model that ignores imageSize. No new detail is invented; it only avoids
+// the blur of the browser stretching a 1K frame on export.
+
+export const RESOLUTION_LONG_EDGE: Record<ImageResolution, number> = { '1K': 1024, '2K': 2048, '4K': 4096 };
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not decode image."));
+    img.src = src;
+});
+
+export const imageLongEdge = async (dataUrl: string): Promise<number> => {
+    const img = await loadImage(dataUrl);
+    return Math.max(img.naturalWidth, img.naturalHeight);
+};
+
+/**
+ * Enlarges `dataUrl` so its long edge is `longEdge` pixels. Scales in steps of at most 2x, which
+ * keeps edges noticeably cleaner than a single high-quality resize. Returns the input when it is
+ * already large enough.
+ */
+export const upscaleImage = async (dataUrl: string, longEdge: number): Promise<string> => {
+    const img = await loadImage(dataUrl);
+    const current = Math.max(img.naturalWidth, img.naturalHeight);
+    if (current >= longEdge) return dataUrl;
+
+    let source: CanvasImageSource = img;
+    let width = img.naturalWidth;
+    let height = img.naturalHeight;
+    let scale = longEdge / current;
+    while (scale > 1.001) {
+        const step = Math.min(2, scale);
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(width * step);
+        canvas.height = Math.round(height * step);
+        const ctx = canvas.getContext('2d')!;
+        ctx.imageSmoothingEnabled = true;
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+        source = canvas;
+        width = canvas.width;
+        height = canvas.height;
+        scale /= step;
+    }
+    const mime = dataUrl.match(/^data:(image\/(?:png|jpeg|webp))/)?.[1] || 'image/png';
+    return (source as HTMLCanvasElement).toDataURL(mime, 0.92);
+};
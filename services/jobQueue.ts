@@ -0,0 +1,200 @@
+import { QueueSettings } from "../types";
+import { abortError, isAbortError, sleep } from "./abort";
+
+// Shared queue for media jobs (scene audio, scene images, image checks). Jobs run with bounded concurrency and
+// every model call waits for a slot in that model's requests-per-minute budget, so bulk runs stop
+// tripping rate limits instead of retrying into them. Failed jobs stay listed until retried or dismissed.
+
+export type JobKind = 'audio' | 'image' | 'check';
+export type JobStatus = 'queued' | 'running' | 'failed' | 'done' | 'cancelled';
+
+export interface JobInfo {
+    id: string;
+    kind: JobKind;
+    label: string; // e.g. "Scene 3"
+    projectId: string;
+    sceneId?: string;
+    status: JobStatus;
+    attempts: number;
+    error?: string;
+    createdAt: number;
+}
+
+export interface JobSpec<T> {
+    kind: JobKind;
+    label: string;
+    projectId: string;
+    sceneId?: string;
+    run: (signal: AbortSignal) => Promise<T>;
+    // Applies the result; called again when a failed job is retried from the panel
+    onResult?: (result: T) => void;
+    signal?: AbortSignal; // Cancels the job (e.g. the stop button of a bulk run)
+}
+
+interface Job extends JobInfo {
+    spec: JobSpec<any>;
+    controller: AbortController;
+    resolve: (value: any) => void;
+    reject: (error: unknown) => void;
+}
+
+export const DEFAULT_QUEUE_SETTINGS: QueueSettings = { concurrency: 2, requestsPerMinute: {} };
+export const DEFAULT_REQUESTS_PER_MINUTE = 10;
+const MAX_FINISHED_JOBS = 50; // Done / cancelled jobs kept for the status list
+
+let settings: QueueSettings = DEFAULT_QUEUE_SETTINGS;
+let jobs: Job[] = [];
+let running = 0;
+const listeners = new Set<(jobs: JobInfo[]) => void>();
+
+const snapshot = (): JobInfo[] => jobs.map(({ spec, controller, resolve, reject, ...info }) => ({ ...info }));
+
+const notify = () => {
+    const current = snapshot();
+    listeners.forEach(listener => listener(current));
+};
+
+const setStatus = (job: Job, status: JobStatus, error?: string) => {
+    job.status = status;
+    job.error = error;
+    if (status === 'done' || status === 'cancelled') {
+        const finished = jobs.filter(j => j.status === 'done' || j.status === 'cancelled');
+        if (finished.length > MAX_FINISHED_JOBS) {
+            const drop = new Set(finished.slice(0, finished.length - MAX_FINISHED_JOBS));
+            jobs = jobs.filter(j => !drop.has(j));
+        }
+    }
+    notify();
+};
+
+const execute = async (job: Job) => {
+    running++;
+    job.attempts++;
+    setStatus(job, 'running');
+    try {
+        const result = await job.spec.run(job.controller.signal);
+        if (job.controller.signal.aborted) throw abortError();
+        setStatus(job, 'done');
+        job.spec.onResult?.(result);
+        job.resolve(result);
+    } catch (error: any) {
+        if (isAbortError(error) || job.controller.signal.aborted) setStatus(job, 'cancelled');
+        else setStatus(job, 'failed', error?.message || String(error));
+        job.reject(error);
+    } finally {
+        running--;
+        pump();
+    }
+};
+
+const pump = () => {
+    while (running < Math.max(1, settings.concurrency)) {
+        const next = jobs.find(j => j.status === 'queued');
+        if (!next) return;
+        execute(next);
+    }
+};
+
+const start = <T,>(job: Job, spec: JobSpec<T>): Promise<T> => new Promise<T>((resolve, reject) => {
+    job.resolve = resolve;
+    job.reject = reject;
+    job.controller = new AbortController();
+    spec.signal?.addEventListener('abort', () => cancelJob(job.id), { once: true });
+    if (spec.signal?.aborted) {
+        setStatus(job, 'cancelled');
+        return reject(abortError());
+    }
+    job.status = 'queued';
+    job.error = undefined;
+    notify();
+    pump();
+});
+
+export const enqueueJob = <T,>(spec: JobSpec<T>): Promise<T> => {
+    const job = {
+        id: `job_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+        kind: spec.kind,
+        label: spec.label,
+        projectId: spec.projectId,
+        sceneId: spec.sceneId,
+        status: 'queued',
+        attempts: 0,
+        createdAt: Date.now(),
+        spec,
+    } as Job;
+    jobs.push(job);
+    return start(job, spec);
+};
+
+/** Re-queues a failed job with its original request; the result is applied through its onResult. */
+export const retryJob = (id: string): Promise<unknown> => {
+    const job = jobs.find(j => j.id === id);
+    if (!job || job.status !== 'failed') return Promise.reject(new Error("Only failed jobs can be retried."));
+    // The bulk run that queued it may have been stopped since; a retry is a fresh request
+    return start(job, { ...job.spec, signal: undefined });
+};
+
+export const cancelJob = (id: string) => {
+    const job = jobs.find(j => j.id === id);
+    if (!job) return;
+    if (job.status === 'queued') {
+        setStatus(job, 'cancelled');
+        job.reject(abortError());
+    } else if (job.status === 'running') {
+        job.controller.abort(); // execute() records the cancellation
+    }
+};
+
+export const cancelJobs = (filter: (job: JobInfo) => boolean = () => true) => {
+    jobs.filter(filter).forEach(job => cancelJob(job.id));
+};
+
+export const dismissJob = (id: string) => {
+    jobs = jobs.filter(j => j.id !== id || j.status === 'queued' || j.status === 'running');
+    notify();
+};
+
+export const subscribeJobs = (listener: (jobs: JobInfo[]) => void): (() => void) => {
+    listeners.add(listener);
+    listener(snapshot());
+    return () => { listeners.delete(listener); };
+};
+
+export const configureQueue = (next: QueueSettings) => {
+    settings = next;
+    pump();
+};
+
+// --- Per-model rate budgets ---
+
+const WINDOW_MS = 60_000;
+const requestTimes = new Map<string, number[]>();
+const blockedUntil = new Map<string, number>(); // Server-requested pauses (Retry-After)
+
+const budgetFor = (model: string): number => settings.requestsPerMinute[model] ?? DEFAULT_REQUESTS_PER_MINUTE;
+
+/**
+ * Waits until `model` has room in its per-minute budget and is not paused by a retry hint,
+ * then records the request. A budget of 0 means unlimited.
+ */
+export const acquireModelSlot = async (model: string, signal?: AbortSignal): Promise<void> => {
+    for (;;) {
+        const now = Date.now();
+        const pausedFor = (blockedUntil.get(model) || 0) - now;
+        const budget = budgetFor(model);
+        const recent = (requestTimes.get(model) || []).filter(t => now - t < WINDOW_MS);
+        requestTimes.set(model, recent);
+
+        if (pausedFor <= 0 && (budget <= 0 || recent.length < budget)) {
+            recent.push(now);
+            return;
+        }
+        const wait = pausedFor > 0 ? pausedFor : recent[0] + WINDOW_MS - now;
+        await sleep(Math.max(50, wait), signal);
+    }
+};
+
+/** Holds back every request to `model` for `ms`, e.g. after a 429 with a Retry-After hint. */
+export const deferModel = (model: string, ms: number) => {
+    blockedUntil.set(model, Math.max(blockedUntil.get(model) || 0, Date.now() + ms));
+};
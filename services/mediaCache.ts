@@ -0,0 +1,80 @@
+import { ImageRequest, ImageEditRequest, SpeechRequest, SpeechResult, getActiveProvider } from "./aiProvider";
+import { hashBytes, decodeMedia, blobToDataUrl, readGenerationCache, writeGenerationCache } from "./storageService";
+
+// Content-addressed cache for paid media generations. The key hashes the fully assembled request
+// (final prompt, model, provider, voice, aspect ratio, reference images), so regenerating an
+// unchanged scene is served locally while any edit to its inputs misses and calls the model.
+// Cache failures never fail a generation; they only cost the saving.
+
+export interface CacheHooks<T> {
+    // First cached result among the candidate models, in order
+    get: (models: string[]) => Promise<{ result: T; model: string } | undefined>;
+    put: (model: string, result: T) => Promise<void>;
+}
+
+// Requests are passed without model and signal; the model is keyed separately per candidate
+const keyFor = async (kind: string, model: string, request: object): Promise<string> => {
+    const payload = JSON.stringify({ kind, provider: getActiveProvider(), model, request });
+    return hashBytes(new TextEncoder().encode(payload));
+};
+
+const hooksFor = <T, R extends object>(
+    kind: string,
+    request: R,
+    bypass: boolean | undefined,
+    encode: (result: T) => { data: Blob; meta?: Record<string, unknown> },
+    decode: (data: Blob, meta: Record<string, unknown>) => Promise<T>
+): CacheHooks<T> => ({
+    get: async models => {
+        if (bypass) return undefined;
+        try {
+            const keys = await Promise.all(models.map(model => keyFor(kind, model, request)));
+            const found = await readGenerationCache(keys);
+            if (!found) return undefined;
+            return { result: await decode(found.entry.data, found.entry.meta), model: models[keys.indexOf(found.key)] };
+        } catch (error) {
+            console.warn("Media cache read failed", error);
+            return undefined;
+        }
+    },
+    // Written even when bypassing, so a forced fresh result replaces the stale one
+    put: async (model, result) => {
+        try {
+            const { data, meta } = encode(result);
+            await writeGenerationCache(await keyFor(kind, model, request), data, { kind, ...meta });
+        } catch (error) {
+            console.warn("Media cache write failed", error);
+        }
+    },
+});
+
+const dataUrlCodec = {
+    encode: (dataUrl: string) => {
+        const { bytes, type } = decodeMedia(dataUrl, 'image/png');
+        return { data: new Blob([bytes], { type }) };
+    },
+    decode: (data: Blob) => blobToDataUrl(data),
+};
+
+// A generated image and the seed it was made with (kept in the entry's meta)
+export interface SeededImage {
+    url: string;
+    seed?: number;
+}
+
+// Random seeds are left out of image keys; the variation index stands in for them
+type ImageCacheKey = Omit<ImageRequest, 'model' | 'seed'> & { seed?: number; variation?: number };
+
+/** Cache hooks for an image request (everything but the model, which each fallback attempt sets). */
+export const imageCache = (request: ImageCacheKey, bypass?: boolean): CacheHooks<SeededImage> =>
+    hooksFor<SeededImage, ImageCacheKey>('image', request, bypass,
+        ({ url, seed }) => ({ ...dataUrlCodec.encode(url), meta: { seed, variation: request.variation } }),
+        async (data, meta) => ({ url: await dataUrlCodec.decode(data), seed: typeof meta.seed === 'number' ? meta.seed : undefined }));
+
+export const imageEditCache = (request: Omit<ImageEditRequest, 'model'>, bypass?: boolean): CacheHooks<string> =>
+    hooksFor<string, Omit<ImageEditRequest, 'model'>>('imageEdit', request, bypass, dataUrlCodec.encode, dataUrlCodec.decode);
+
+export const speechCache = (request: Omit<SpeechRequest, 'model'>, bypass?: boolean): CacheHooks<SpeechResult> =>
+    hooksFor<SpeechResult, Omit<SpeechRequest, 'model'>>('speech', request, bypass,
+        ({ pcm, sampleRate }) => ({ data: new Blob([pcm], { type: 'audio/L16' }), meta: { sampleRate } }),
+        async (data, meta) => ({ pcm: new Int16Array(await data.arrayBuffer()), sampleRate: Number(meta.sampleRate) }));
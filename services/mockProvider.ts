@@ -0,0 +1,244 @@
+import { Schema, Type } from "@google/genai";
+import { AspectRatio } from "../types";
+import type { AIProvider, TextRequest, JsonRequest, JsonStreamRequest, SpeechRequest, SpeechResult, ImageRequest, ImageEditRequest, VisionRequest, VisionJsonRequest } from "./aiProvider";
+import { crc32 } from "./zip";
+import { sleep } from "./abort";
+
+// Offline provider for development and demos. Every output is derived from a hash of the request,
+// so the same inputs always produce the same story, audio and images.
+
+// --- Deterministic Randomness ---
+const hashString = (input: string): number => {
+    // FNV-1a
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const createRng = (seed: number) => {
+    // Mulberry32
+    let state = seed || 1;
+    return () => {
+        state = (state + 0x6D2B79F5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+const WORDS = [
+    'lantern', 'desert', 'whisper', 'storm', 'market', 'ancient', 'shadow', 'river', 'golden', 'silent',
+    'harbor', 'mirror', 'ember', 'citadel', 'forest', 'stranger', 'secret', 'moonlit', 'caravan', 'echo'
+];
+
+const pickWords = (rng: () => number, count: number) =>
+    Array.from({ length: count }, () => WORDS[Math.floor(rng() * WORDS.length)]).join(' ');
+
+// --- Schema-driven JSON ---
+const fakeFromSchema = (schema: Schema, rng: () => number, key: string, index: number): any => {
+    if (schema.enum && schema.enum.length > 0) {
+        return schema.enum[Math.floor(rng() * schema.enum.length)];
+    }
+    switch (schema.type) {
+        case Type.OBJECT: {
+            const obj: Record<string, any> = {};
+            for (const [prop, propSchema] of Object.entries(schema.properties || {})) {
+                obj[prop] = fakeFromSchema(propSchema, rng, prop, index);
+            }
+            return obj;
+        }
+        case Type.ARRAY: {
+            const min = schema.minItems ? parseInt(schema.minItems, 10) : 3;
+            const length = Math.max(1, min);
+            return Array.from({ length }, (_, i) => fakeFromSchema(schema.items || { type: Type.STRING }, rng, key, i));
+        }
+        case Type.INTEGER:
+            // Array items are usually ordinal (e.g. sceneNumber)
+            return index + 1;
+        case Type.NUMBER:
+            return Math.round(rng() * 1000) / 100;
+        case Type.BOOLEAN:
+            return rng() > 0.5;
+        case Type.STRING:
+        default:
+            return `[mock ${key}] ${pickWords(rng, 8 + Math.floor(rng() * 8))}`;
+    }
+};
+
+// --- PCM Tone ---
+const SAMPLE_RATE = 24000;
+
+const synthesizeTone = (text: string, voiceName: string): Int16Array => {
+    const seconds = Math.min(20, Math.max(1, text.length * 0.06));
+    const length = Math.floor(seconds * SAMPLE_RATE);
+    const pcm = new Int16Array(length);
+    const baseFreq = 140 + (hashString(voiceName) % 160);
+    const fade = SAMPLE_RATE * 0.05;
+    for (let i = 0; i < length; i++) {
+        // Gentle syllable-like pulse so the clip is recognisable as "speech" in a waveform
+        const pulse = 0.5 + 0.5 * Math.sin((2 * Math.PI * 4 * i) / SAMPLE_RATE);
+        const envelope = Math.min(1, i / fade, (length - i) / fade);
+        const sample = Math.sin((2 * Math.PI * baseFreq * i) / SAMPLE_RATE) * pulse * envelope;
+        pcm[i] = Math.round(sample * 0.2 * 32767);
+    }
+    return pcm;
+};
+
+// --- Minimal PNG Encoder (uncompressed deflate) ---
+const adler32 = (bytes: Uint8Array): number => {
+    let a = 1, b = 0;
+    for (let i = 0; i < bytes.length; i++) {
+        a = (a + bytes[i]) % 65521;
+        b = (b + a) % 65521;
+    }
+    return ((b << 16) | a) >>> 0;
+};
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+};
+
+const encodePng = (width: number, height: number, rgb: Uint8Array): Uint8Array => {
+    // Raw scanlines, each prefixed with filter type 0
+    const raw = new Uint8Array(height * (width * 3 + 1));
+    for (let y = 0; y < height; y++) {
+        raw.set(rgb.subarray(y * width * 3, (y + 1) * width * 3), y * (width * 3 + 1) + 1);
+    }
+
+    // zlib stream made of stored (uncompressed) deflate blocks
+    const blockCount = Math.ceil(raw.length / 65535);
+    const zlib = new Uint8Array(2 + raw.length + blockCount * 5 + 4);
+    zlib[0] = 0x78; zlib[1] = 0x01;
+    let offset = 2;
+    for (let i = 0; i < blockCount; i++) {
+        const start = i * 65535;
+        const size = Math.min(65535, raw.length - start);
+        zlib[offset] = i === blockCount - 1 ? 1 : 0;
+        zlib[offset + 1] = size & 0xFF;
+        zlib[offset + 2] = size >>> 8;
+        zlib[offset + 3] = ~size & 0xFF;
+        zlib[offset + 4] = (~size >>> 8) & 0xFF;
+        zlib.set(raw.subarray(start, start + size), offset + 5);
+        offset += 5 + size;
+    }
+    new DataView(zlib.buffer).setUint32(offset, adler32(raw));
+
+    const ihdr = new Uint8Array(13);
+    const ihdrView = new DataView(ihdr.buffer);
+    ihdrView.setUint32(0, width);
+    ihdrView.setUint32(4, height);
+    ihdr[8] = 8;  // bit depth
+    ihdr[9] = 2;  // color type: truecolor RGB
+
+    const parts = [
+        new Uint8Array([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]),
+        pngChunk('IHDR', ihdr),
+        pngChunk('IDAT', zlib),
+        pngChunk('IEND', new Uint8Array(0)),
+    ];
+    const png = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+    let pos = 0;
+    for (const p of parts) { png.set(p, pos); pos += p.length; }
+    return png;
+};
+
+const imageDimensions = (aspectRatio: AspectRatio): [number, number] => {
+    const [w, h] = aspectRatio.split(':').map(Number);
+    const width = 256;
+    return [width, Math.round((width * h) / w)];
+};
+
+const renderPlaceholder = (prompt: string, aspectRatio: AspectRatio): string => {
+    const [width, height] = imageDimensions(aspectRatio);
+    const rng = createRng(hashString(prompt));
+    const from = [rng() * 255, rng() * 255, rng() * 255];
+    const to = [rng() * 255, rng() * 255, rng() * 255];
+    const cx = rng() * width, cy = rng() * height, radius = Math.min(width, height) * (0.15 + rng() * 0.2);
+
+    const rgb = new Uint8Array(width * height * 3);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const t = (x + y) / (width + height);
+            const inCircle = (x - cx) ** 2 + (y - cy) ** 2 < radius ** 2;
+            const i = (y * width + x) * 3;
+            for (let c = 0; c < 3; c++) {
+                const v = from[c] + (to[c] - from[c]) * t;
+                rgb[i + c] = inCircle ? 255 - v : v;
+            }
+        }
+    }
+    return `data:image/png;base64,${bytesToBase64(encodePng(width, height, rgb))}`;
+};
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    const chunkSize = 8192;
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+        binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + chunkSize)));
+    }
+    return btoa(binary);
+};
+
+// Small artificial latency so loading states remain visible during demos
+const delay = (ms: number, signal?: AbortSignal) => sleep(ms, signal);
+const STREAM_CHUNK = 48;
+
+export const createMockProvider = (): AIProvider => {
+    const generateText = async (req: TextRequest): Promise<string> => {
+        await delay(300, req.signal);
+        return `[mock] ${pickWords(createRng(hashString(req.prompt)), 24)}`;
+    };
+
+    const generateJson = async <T,>(req: JsonRequest): Promise<T> => {
+        await delay(600, req.signal);
+        return fakeFromSchema(req.schema, createRng(hashString(req.model + req.prompt)), 'root', 0) as T;
+    };
+
+    // Emits the same JSON generateJson would, a few characters at a time
+    const streamJson = async <T,>(req: JsonStreamRequest): Promise<T> => {
+        const result = fakeFromSchema(req.schema, createRng(hashString(req.model + req.prompt)), 'root', 0);
+        const text = JSON.stringify(result, null, 2);
+        for (let end = 0; end < text.length; end += STREAM_CHUNK) {
+            await delay(40, req.signal);
+            req.onText(text.slice(0, end + STREAM_CHUNK));
+        }
+        return result as T;
+    };
+
+    const generateSpeech = async (req: SpeechRequest): Promise<SpeechResult> => {
+        await delay(300, req.signal);
+        return { pcm: synthesizeTone(req.text, req.voiceName), sampleRate: SAMPLE_RATE };
+    };
+
+    const generateImage = async (req: ImageRequest): Promise<string> => {
+        await delay(500, req.signal);
+        const refs = (req.referenceImages || []).map(r => r.label).join('|');
+        return renderPlaceholder(req.model + req.prompt + refs + (req.seed ?? ''), req.aspectRatio);
+    };
+
+    const editImage = async (req: ImageEditRequest): Promise<string> => {
+        await delay(500, req.signal);
+        return renderPlaceholder(req.model + req.instruction + req.image.data.slice(0, 4096) + (req.mask?.data.length ?? ''), req.aspectRatio);
+    };
+
+    const analyzeImage = async (req: VisionRequest): Promise<string> => {
+        await delay(300, req.signal);
+        return `[mock] ${pickWords(createRng(hashString(req.image.data.slice(0, 4096))), 16)}`;
+    };
+
+    const analyzeImageJson = async <T,>(req: VisionJsonRequest): Promise<T> => {
+        await delay(300, req.signal);
+        return fakeFromSchema(req.schema, createRng(hashString(req.prompt + req.image.data.slice(0, 4096))), 'root', 0) as T;
+    };
+
+    return { id: 'mock', generateText, generateJson, streamJson, generateSpeech, generateImage, editImage, analyzeImage, analyzeImageJson };
+};
@@ -0,0 +1,89 @@
+// Tolerant parser for JSON that is still streaming in. Returns everything that can be read so far:
+// containers are returned even when unclosed, but a scalar (string, number, literal) or array item
+// is only included once it is complete. So `{"scenes": [{...}, {"sceneNu` gives the first scene only.
+
+interface Parsed {
+    value: unknown;
+    done: boolean;
+}
+
+const INCOMPLETE: Parsed = { value: undefined, done: false };
+
+export const parsePartialJson = (text: string): unknown => {
+    let pos = 0;
+
+    const skipWhitespace = () => {
+        while (pos < text.length && /\s/.test(text[pos])) pos++;
+    };
+
+    const parseString = (): Parsed => {
+        const start = pos;
+        pos++; // Opening quote
+        while (pos < text.length) {
+            if (text[pos] === '\\') pos += 2;
+            else if (text[pos] === '"') {
+                pos++;
+                return { value: JSON.parse(text.slice(start, pos)), done: true };
+            } else pos++;
+        }
+        return INCOMPLETE;
+    };
+
+    // Numbers and literals are only safe once something follows them (`12` may become `123`)
+    const parseScalar = (): Parsed => {
+        const match = text.slice(pos).match(/^(-?\d+(\.\d+)?([eE][+-]?\d+)?|true|false|null)/);
+        if (!match) throw new Error(`Unexpected character "${text[pos]}" at ${pos}`);
+        pos += match[0].length;
+        if (pos >= text.length) return INCOMPLETE;
+        return { value: JSON.parse(match[0]), done: true };
+    };
+
+    const parseArray = (): Parsed => {
+        pos++;
+        const items: unknown[] = [];
+        for (;;) {
+            skipWhitespace();
+            if (pos >= text.length) return { value: items, done: false };
+            if (text[pos] === ']') { pos++; return { value: items, done: true }; }
+            if (text[pos] === ',') { pos++; continue; }
+            const item = parseValue();
+            if (!item.done) return { value: items, done: false };
+            items.push(item.value);
+        }
+    };
+
+    const parseObject = (): Parsed => {
+        pos++;
+        const obj: Record<string, unknown> = {};
+        for (;;) {
+            skipWhitespace();
+            if (pos >= text.length) return { value: obj, done: false };
+            if (text[pos] === '}') { pos++; return { value: obj, done: true }; }
+            if (text[pos] === ',') { pos++; continue; }
+            const key = parseString();
+            if (!key.done) return { value: obj, done: false };
+            skipWhitespace();
+            if (text[pos] !== ':') return { value: obj, done: false };
+            pos++;
+            const value = parseValue();
+            // Keep partial containers so callers can see their finished items
+            if (value.done || (value.value !== undefined && typeof value.value === 'object')) {
+                obj[key.value as string] = value.value;
+            }
+            if (!value.done) return { value: obj, done: false };
+        }
+    };
+
+    const parseValue = (): Parsed => {
+        skipWhitespace();
+        if (pos >= text.length) return INCOMPLETE;
+        switch (text[pos]) {
+            case '{': return parseObject();
+            case '[': return parseArray();
+            case '"': return parseString();
+            default: return parseScalar();
+        }
+    };
+
+    return parseValue().value;
+};
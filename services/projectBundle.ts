@@ -0,0 +1,205 @@
+import { Project, Scene, AspectRatio, SubtitleSettings } from "../types";
+import { createZip, readZip } from "./zip";
+import { imageForAspect } from "./sceneState";
+import { frameStill } from "./reframe";
+import { ExportPreset } from "./videoRenderer";
+import { Caption, drawCaption } from "./subtitleService";
+import { decodeWav, formatTimestamp } from "./audioService";
+import { CURRENT_SCHEMA_VERSION } from "./projectSchema";
+
+// Project bundle (.zip): project.json with media fields replaced by paths inside the bundle,
+// the media itself as plain files, and a README listing what goes where. The layout is meant
+// to be usable as-is in an editor, and re-importable to rebuild the Project.
+
+const IMAGE_EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp' };
+const MIME_BY_EXTENSION: Record<string, string> = { png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', webp: 'image/webp', wav: 'audio/wav' };
+
+const decodeBase64 = (value: string): { bytes: Uint8Array; mime?: string } => {
+    const [header, base64] = value.startsWith('data:') ? value.split(',', 2) : ['', value];
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return { bytes, mime: header.match(/^data:([^;]+)/)?.[1] };
+};
+
+const encodeBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    const chunk = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunk) binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+    return btoa(binary);
+};
+
+const safeName = (value: string) => value.replace(/[^a-zA-Z0-9_-]/g, '_');
+
+const wavSeconds = (base64: string): number | null => {
+    try {
+        const { pcm, sampleRate } = decodeWav(base64);
+        return pcm.length / sampleRate;
+    } catch {
+        return null;
+    }
+};
+
+const buildReadme = (project: Project, paths: { scene: number; image?: string; audio?: string; seconds: number | null }[], characterPaths: { name: string; path: string }[]) => {
+    const lines = [
+        `# ${project.output?.title || project.title || 'Untitled Project'}`,
+        '',
+        project.output?.summary || '',
+        '',
+        `Exported ${new Date().toISOString()} · schema ${CURRENT_SCHEMA_VERSION} · aspect ratio ${project.mediaSettings.aspectRatio}`,
+        '',
+        '## Scenes',
+        '',
+        'Start times assume scenes play back to back with no gaps.',
+        '',
+        '| Scene | Start | Duration | Image | Audio |',
+        '| --- | --- | --- | --- | --- |',
+    ];
+    let start = 0;
+    for (const p of paths) {
+        lines.push(`| ${p.scene} | ${formatTimestamp(start)} | ${p.seconds !== null ? `${p.seconds.toFixed(2)}s` : '—'} | ${p.image || '—'} | ${p.audio || '—'} |`);
+        start += p.seconds || 0;
+    }
+    if (characterPaths.length) {
+        lines.push('', '## Character references', '');
+        characterPaths.forEach(c => lines.push(`- ${c.name}: ${c.path}`));
+    }
+    lines.push('', '## Files', '', '- project.json — story, settings and media paths. Import the .zip back into the app to keep editing.', '');
+    return lines.join('\n');
+};
+
+export const exportProjectBundle = (project: Project): Blob => {
+    const encoder = new TextEncoder();
+    const files: { name: string; data: Uint8Array }[] = [];
+    const scenePaths: { scene: number; image?: string; audio?: string; seconds: number | null }[] = [];
+    const characterPaths: { name: string; path: string }[] = [];
+
+    const scenes = (project.output?.scenes || []).map(scene => {
+        const entry: (typeof scenePaths)[number] = { scene: scene.sceneNumber, seconds: null };
+        let imageUrl: string | undefined;
+        let audioData: string | undefined;
+        if (scene.imageUrl) {
+            const { bytes, mime } = decodeBase64(scene.imageUrl);
+            imageUrl = `images/scene-${scene.sceneNumber}.${IMAGE_EXTENSIONS[mime || ''] || 'png'}`;
+            files.push({ name: imageUrl, data: bytes });
+            entry.image = imageUrl;
+        }
+        // The selected take is the scene image above; the others go next to it
+        const imageTakes = scene.imageTakes?.map((take, i) => {
+            if (take.url === scene.imageUrl) return { ...take, url: imageUrl! };
+            const { bytes, mime } = decodeBase64(take.url);
+            const path = `images/takes/scene-${scene.sceneNumber}-${i + 1}.${IMAGE_EXTENSIONS[mime || ''] || 'png'}`;
+            files.push({ name: path, data: bytes });
+            return { ...take, url: path };
+        });
+        if (scene.audioData) {
+            audioData = `audio/scene-${scene.sceneNumber}.wav`;
+            files.push({ name: audioData, data: decodeBase64(scene.audioData).bytes });
+            entry.audio = audioData;
+            entry.seconds = wavSeconds(scene.audioData);
+        }
+        scenePaths.push(entry);
+        const reframes = scene.reframes && Object.fromEntries(Object.entries(scene.reframes).map(([aspect, reframe]) => {
+            const { bytes, mime } = decodeBase64(reframe!.url);
+            const path = `images/${aspect.replace(':', 'x')}/scene-${scene.sceneNumber}.${IMAGE_EXTENSIONS[mime || ''] || 'png'}`;
+            files.push({ name: path, data: bytes });
+            return [aspect, { ...reframe, url: path }];
+        }));
+        return { ...scene, imageUrl, imageTakes, reframes, audioData };
+    });
+
+    const characters = project.config.characters.map(c => {
+        if (!c.image) return c;
+        const { bytes, mime } = decodeBase64(c.image);
+        const path = `characters/${safeName(c.id)}.${IMAGE_EXTENSIONS[mime || ''] || 'jpg'}`;
+        files.push({ name: path, data: bytes });
+        characterPaths.push({ name: c.name, path });
+        return { ...c, image: path };
+    });
+
+    const manifest: Project = {
+        ...project,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        apiKey: undefined, // Bundles get shared; never ship the key
+        config: { ...project.config, characters },
+        output: project.output ? { ...project.output, scenes } : null,
+    };
+
+    return createZip([
+        { name: 'project.json', data: encoder.encode(JSON.stringify(manifest, null, 2)) },
+        { name: 'README.md', data: encoder.encode(buildReadme(project, scenePaths, characterPaths)) },
+        ...files,
+    ]);
+};
+
+/**
+ * Scene images as a flat ZIP of PNGs framed for a platform preset, like the video export: the
+ * scene's reframe for the preset's shape when there is one, else a centre crop. Without a preset
+ * the images keep the project's ratio and size. With captions, each of a scene's captions is
+ * burned into its own copy of the image (scene-3-1.png, scene-3-2.png, ...), slides in order.
+ */
+export const exportStills = async (
+    scenes: Scene[],
+    projectAspect: AspectRatio,
+    preset?: ExportPreset,
+    burnIn?: { captions: Caption[]; style: SubtitleSettings }
+): Promise<Blob> => {
+    const target = preset?.aspectRatio ?? projectAspect;
+    const files: { name: string; data: Uint8Array }[] = [];
+    for (const scene of scenes) {
+        if (!scene.imageUrl) continue;
+        const source = imageForAspect(scene, target, projectAspect) ?? scene.imageUrl;
+        const captions = burnIn?.captions.filter(c => c.sceneNumber === scene.sceneNumber) || [];
+        if (!captions.length) {
+            const framed = await frameStill(source, target, preset?.shortSide);
+            files.push({ name: `scene-${scene.sceneNumber}.png`, data: decodeBase64(framed).bytes });
+            continue;
+        }
+        for (const [i, caption] of captions.entries()) {
+            const framed = await frameStill(source, target, preset?.shortSide, ctx => drawCaption(ctx, caption.lines, burnIn!.style));
+            const name = captions.length > 1 ? `scene-${scene.sceneNumber}-${i + 1}.png` : `scene-${scene.sceneNumber}.png`;
+            files.push({ name, data: decodeBase64(framed).bytes });
+        }
+    }
+    return createZip(files);
+};
+
+/**
+ * Rebuilds project data from a bundle, inlining media files back into the fields that
+ * reference them. The result still needs migrateProject like any other loaded project.
+ */
+export const importProjectBundle = async (file: Blob): Promise<unknown> => {
+    const entries = await readZip(await file.arrayBuffer());
+    // Tolerate bundles re-zipped with their enclosing folder
+    const manifestEntry = entries
+        .filter(e => e.name === 'project.json' || e.name.endsWith('/project.json'))
+        .sort((a, b) => a.name.length - b.name.length)[0];
+    if (!manifestEntry) throw new Error("Bundle has no project.json.");
+    const root = manifestEntry.name.slice(0, -'project.json'.length);
+    const files = new Map(entries.filter(e => e.name.startsWith(root)).map(e => [e.name.slice(root.length), e.data]));
+
+    const data = JSON.parse(new TextDecoder().decode(manifestEntry.data));
+    const resolve = (path: unknown, asDataUrl: boolean): unknown => {
+        if (typeof path !== 'string' || !files.has(path)) return path;
+        const base64 = encodeBase64(files.get(path)!);
+        if (!asDataUrl) return base64;
+        const mime = MIME_BY_EXTENSION[path.split('.').pop()!.toLowerCase()] || 'image/png';
+        return `data:${mime};base64,${base64}`;
+    };
+
+    if (Array.isArray(data?.output?.scenes)) {
+        data.output.scenes = data.output.scenes.map((scene: any) => ({
+            ...scene,
+            imageUrl: resolve(scene?.imageUrl, true),
+            imageTakes: Array.isArray(scene?.imageTakes) ? scene.imageTakes.map((take: any) => ({ ...take, url: resolve(take?.url, true) })) : scene?.imageTakes,
+            reframes: scene?.reframes && typeof scene.reframes === 'object'
+                ? Object.fromEntries(Object.entries(scene.reframes).map(([aspect, reframe]: [string, any]) => [aspect, { ...reframe, url: resolve(reframe?.url, true) }]))
+                : scene?.reframes,
+            audioData: resolve(scene?.audioData, false), // Scene audio is bare base64 WAV
+        }));
+    }
+    if (Array.isArray(data?.config?.characters)) {
+        data.config.characters = data.config.characters.map((c: any) => ({ ...c, image: resolve(c?.image, true) }));
+    }
+    return data;
+};
@@ -0,0 +1,96 @@
+import { Project, Scene } from "../types";
+
+export type SceneField = 'narrative' | 'imagePrompt' | 'motionPrompt' | 'image' | 'audio';
+
+export interface SceneDiff {
+    sceneNumber: number; // Number in the newer version (the older one for removed scenes)
+    status: 'added' | 'removed' | 'changed' | 'moved'; // Moved scenes may also list changed fields
+    fields: SceneField[];
+    fromSceneNumber?: number; // Number in the older version, for moved scenes
+    before?: string; // Narrative text on each side, for display
+    after?: string;
+}
+
+export interface ProjectDiff {
+    title?: { before?: string; after?: string };
+    charactersChanged: boolean;
+    scenes: SceneDiff[];
+}
+
+const sceneFields = (a: Scene, b: Scene): SceneField[] => {
+    const fields: SceneField[] = [];
+    if (a.narrative !== b.narrative) fields.push('narrative');
+    if (a.imagePrompt !== b.imagePrompt) fields.push('imagePrompt');
+    if (a.motionPrompt !== b.motionPrompt) fields.push('motionPrompt');
+    if (a.imageUrl !== b.imageUrl) fields.push('image');
+    if (a.audioData !== b.audioData) fields.push('audio');
+    return fields;
+};
+
+const characterSignature = (p: Project) =>
+    JSON.stringify((p.config.characters || []).map(c => [c.name, c.role, c.description, c.voiceType, c.conditioning, c.image?.length]));
+
+// Ids of the scenes that changed place: everything outside the longest run of shared scenes whose
+// relative order is unchanged. Deleting or inserting a scene shifts numbers but moves nothing.
+const movedIds = (beforeIds: string[], afterIds: string[]): Set<string> => {
+    const position = new Map(beforeIds.map((id, i) => [id, i]));
+    const shared = afterIds.filter(id => position.has(id));
+    const length = shared.map(() => 1);
+    const prev = shared.map(() => -1);
+    shared.forEach((id, i) => {
+        for (let j = 0; j < i; j++) {
+            if (position.get(shared[j])! < position.get(id)! && length[j] + 1 > length[i]) {
+                length[i] = length[j] + 1;
+                prev[i] = j;
+            }
+        }
+    });
+    const kept = new Set<string>();
+    for (let i = length.indexOf(Math.max(0, ...length)); i >= 0; i = prev[i]) kept.add(shared[i]);
+    return new Set(shared.filter(id => !kept.has(id)));
+};
+
+/**
+ * Compares two versions of a project scene by scene. Scenes are matched on their stable id, so
+ * inserts, deletes and reorders don't show up as edits to every later scene. Snapshots whose scenes
+ * share no ids with the other side (ids assigned on load, from before scenes had them) fall back
+ * to matching on scene number.
+ */
+export const diffProjects = (before: Project, after: Project): ProjectDiff => {
+    const beforeList = before.output?.scenes || [];
+    const afterList = after.output?.scenes || [];
+    const afterIdSet = new Set(afterList.map(s => s.id));
+    const byId = beforeList.some(s => s.id && afterIdSet.has(s.id));
+    const keyOf = (s: Scene) => byId && s.id ? s.id : `#${s.sceneNumber}`;
+
+    const beforeScenes = new Map(beforeList.map(s => [keyOf(s), s]));
+    const afterScenes = new Map(afterList.map(s => [keyOf(s), s]));
+    const moved = byId ? movedIds(beforeList.map(keyOf), afterList.map(keyOf)) : new Set<string>();
+
+    const scenes: SceneDiff[] = [];
+    for (const [key, b] of afterScenes) {
+        const a = beforeScenes.get(key);
+        if (!a) {
+            scenes.push({ sceneNumber: b.sceneNumber, status: 'added', fields: [], after: b.narrative });
+            continue;
+        }
+        const fields = sceneFields(a, b);
+        if (moved.has(key)) {
+            scenes.push({ sceneNumber: b.sceneNumber, status: 'moved', fields, fromSceneNumber: a.sceneNumber, before: a.narrative, after: b.narrative });
+        } else if (fields.length) {
+            scenes.push({ sceneNumber: b.sceneNumber, status: 'changed', fields, before: a.narrative, after: b.narrative });
+        }
+    }
+    for (const [key, a] of beforeScenes) {
+        if (!afterScenes.has(key)) scenes.push({ sceneNumber: a.sceneNumber, status: 'removed', fields: [], before: a.narrative });
+    }
+    scenes.sort((x, y) => x.sceneNumber - y.sceneNumber);
+
+    const beforeTitle = before.output?.title;
+    const afterTitle = after.output?.title;
+    return {
+        title: beforeTitle !== afterTitle ? { before: beforeTitle, after: afterTitle } : undefined,
+        charactersChanged: characterSignature(before) !== characterSignature(after),
+        scenes,
+    };
+};
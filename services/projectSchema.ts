@@ -0,0 +1,223 @@
+import { Project, NARRATOR } from "../types";
+import { createSceneId, createTakeId } from "./sceneState";
+
+// Saved projects (files, archive, autosave, revisions) carry a schemaVersion. Loading runs the
+// data through every migration from its version up to CURRENT_SCHEMA_VERSION, then validates
+// it, so older files upgrade in one place instead of each loader patching fields its own way.
+
+export const CURRENT_SCHEMA_VERSION = 3;
+
+type RawProject = Record<string, any>;
+
+// MIGRATIONS[n] upgrades version n to n + 1
+const MIGRATIONS: ((project: RawProject) => RawProject)[] = [
+    // 0 -> 1: files from before versioning
+    (project) => {
+        const config = project.config && typeof project.config === 'object'
+            ? { ...project.config, characters: Array.isArray(project.config.characters) ? project.config.characters : [] }
+            : project.config;
+        const output = project.output && Array.isArray(project.output.scenes)
+            ? {
+                ...project.output,
+                scenes: project.output.scenes.map((scene: RawProject, i: number) => {
+                    const { videoUrl, ...rest } = scene || {}; // Video generation was removed
+                    const narrative = typeof rest.narrative === 'string' ? rest.narrative : '';
+                    return {
+                        ...rest,
+                        sceneNumber: typeof rest.sceneNumber === 'number' ? rest.sceneNumber : i + 1,
+                        narrative,
+                        motionPrompt: rest.motionPrompt ?? '',
+                        characterNames: Array.isArray(rest.characterNames) ? rest.characterNames : [],
+                        // Narrative-only scenes predate speaker tagging; read them with the narrator voice
+                        segments: Array.isArray(rest.segments) ? rest.segments : (narrative ? [{ speaker: NARRATOR, text: narrative }] : []),
+                    };
+                }),
+            }
+            : project.output;
+        return { ...project, config, output: output ?? null };
+    },
+    // 1 -> 2: scenes get stable ids so they can be reordered without losing their media
+    (project) => project.output && Array.isArray(project.output.scenes)
+        ? {
+            ...project,
+            output: {
+                ...project.output,
+                scenes: project.output.scenes.map((scene: RawProject) =>
+                    scene && typeof scene === 'object' && typeof scene.id !== 'string' ? { ...scene, id: createSceneId() } : scene),
+            },
+        }
+        : project,
+    // 2 -> 3: a scene's single image becomes the first (selected) take of its gallery
+    (project) => project.output && Array.isArray(project.output.scenes)
+        ? {
+            ...project,
+            output: {
+                ...project.output,
+                scenes: project.output.scenes.map((scene: RawProject) => {
+                    if (!scene || typeof scene !== 'object' || typeof scene.imageUrl !== 'string' || Array.isArray(scene.imageTakes)) return scene;
+                    const take = { id: createTakeId(), url: scene.imageUrl, model: scene.imageModel, source: scene.imageSource, createdAt: project.lastSaved || Date.now() };
+                    return { ...scene, imageTakes: [take], selectedTakeId: take.id };
+                }),
+            },
+        }
+        : project,
+];
+
+// --- Validation ---
+
+const LANGUAGES = ['ar', 'en', 'fr', 'es', 'de'];
+const ROLES = ['protagonist', 'antagonist', 'supporting'];
+const ASPECT_RATIOS = ['16:9', '9:16', '1:1', '4:5', '3:4', '4:3'];
+const VOICE_TYPES = ['man_deep', 'man_soft', 'man_drama', 'woman', 'child'];
+const MODALITIES = ['text', 'speech', 'image', 'vision'];
+
+const isObject = (value: unknown): value is RawProject =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown) => value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+/**
+ * Checks the shape of a migrated project and returns one message per problem,
+ * e.g. "output.scenes[2].narrative: expected string, got number". Empty means valid.
+ * Sections the app backfills with defaults (mediaSettings, imageStyle, ...) are optional.
+ */
+export const validateProject = (data: unknown): string[] => {
+    const issues: string[] = [];
+    const expect = (obj: RawProject, key: string, type: 'string' | 'number' | 'boolean', path: string, optional = false) => {
+        const value = obj[key];
+        if (value === undefined && optional) return;
+        if (typeof value !== type) issues.push(`${path}${key}: expected ${type}, got ${value === undefined ? 'nothing' : describe(value)}`);
+    };
+    const expectOneOf = (obj: RawProject, key: string, allowed: string[], path: string, optional = false) => {
+        const value = obj[key];
+        if (value === undefined && optional) return;
+        if (!allowed.includes(value)) issues.push(`${path}${key}: expected one of ${allowed.join(', ')}, got ${JSON.stringify(value)}`);
+    };
+    const expectArray = (obj: RawProject, key: string, path: string, optional = false): any[] => {
+        const value = obj[key];
+        if (value === undefined && optional) return [];
+        if (!Array.isArray(value)) {
+            issues.push(`${path}${key}: expected array, got ${value === undefined ? 'nothing' : describe(value)}`);
+            return [];
+        }
+        return value;
+    };
+    const section = (obj: RawProject, key: string, optional = true): RawProject | null => {
+        const value = obj[key];
+        if (value === undefined && optional) return null;
+        if (!isObject(value)) {
+            issues.push(`${key}: expected object, got ${value === undefined ? 'nothing' : describe(value)}`);
+            return null;
+        }
+        return value;
+    };
+
+    if (!isObject(data)) return [`project: expected object, got ${describe(data)}`];
+
+    expect(data, 'id', 'string', '');
+    expect(data, 'createdAt', 'number', '');
+    expect(data, 'schemaVersion', 'number', '');
+
+    const config = section(data, 'config', false);
+    if (config) {
+        expectOneOf(config, 'language', LANGUAGES, 'config.', true);
+        expect(config, 'category', 'string', 'config.');
+        expect(config, 'premise', 'string', 'config.');
+        expect(config, 'sceneCount', 'number', 'config.');
+        expectArray(config, 'characters', 'config.').forEach((c, i) => {
+            const path = `config.characters[${i}].`;
+            if (!isObject(c)) return issues.push(`${path.slice(0, -1)}: expected object, got ${describe(c)}`);
+            expect(c, 'id', 'string', path);
+            expect(c, 'name', 'string', path);
+            expectOneOf(c, 'role', ROLES, path);
+            expect(c, 'description', 'string', path);
+            expect(c, 'image', 'string', path, true);
+            expectOneOf(c, 'voiceType', VOICE_TYPES, path, true);
+            expectOneOf(c, 'conditioning', ['text', 'reference'], path, true);
+        });
+    }
+
+    if (data.output !== null) {
+        const output = section(data, 'output', false);
+        if (output) {
+            expect(output, 'title', 'string', 'output.');
+            expectArray(output, 'scenes', 'output.').forEach((s, i) => {
+                const path = `output.scenes[${i}].`;
+                if (!isObject(s)) return issues.push(`${path.slice(0, -1)}: expected object, got ${describe(s)}`);
+                expect(s, 'id', 'string', path);
+                expect(s, 'sceneNumber', 'number', path);
+                expect(s, 'narrative', 'string', path);
+                expect(s, 'imagePrompt', 'string', path);
+                expect(s, 'motionPrompt', 'string', path);
+                expectArray(s, 'characterNames', path);
+                expectArray(s, 'segments', path, true).forEach((seg, j) => {
+                    if (!isObject(seg) || typeof seg.speaker !== 'string' || typeof seg.text !== 'string') {
+                        issues.push(`${path}segments[${j}]: expected { speaker, text } strings`);
+                    }
+                });
+                expect(s, 'audioData', 'string', path, true);
+                expect(s, 'imageUrl', 'string', path, true);
+                expect(s, 'selectedTakeId', 'string', path, true);
+                expect(s, 'pinnedSeed', 'number', path, true);
+                expectArray(s, 'imageTakes', path, true).forEach((take, j) => {
+                    if (!isObject(take) || typeof take.id !== 'string' || typeof take.url !== 'string') {
+                        issues.push(`${path}imageTakes[${j}]: expected { id, url } strings`);
+                    }
+                });
+                const reframes = section(s, 'reframes');
+                if (reframes) Object.entries(reframes).forEach(([aspect, reframe]) => {
+                    if (!ASPECT_RATIOS.includes(aspect)) issues.push(`${path}reframes.${aspect}: unknown aspect ratio`);
+                    else if (!isObject(reframe) || typeof reframe.url !== 'string') issues.push(`${path}reframes.${aspect}: expected { url } string`);
+                });
+                const consistency = section(s, 'consistency');
+                if (consistency) expectArray(consistency, 'issues', `${path}consistency.`);
+            });
+        }
+    }
+
+    const draft = section(data, 'draft');
+    if (draft) {
+        expect(draft, 'completedChapters', 'number', 'draft.');
+        expect(draft, 'runningSummary', 'string', 'draft.');
+        expectArray(draft, 'scenes', 'draft.');
+        if (!isObject(draft.outline) || !Array.isArray(draft.outline.chapters)) issues.push('draft.outline: expected object with chapters');
+    }
+
+    const media = section(data, 'mediaSettings');
+    if (media) expectOneOf(media, 'aspectRatio', ASPECT_RATIOS, 'mediaSettings.', true);
+    const voice = section(data, 'voiceConfig');
+    if (voice) expectOneOf(voice, 'voiceType', VOICE_TYPES, 'voiceConfig.', true);
+    section(data, 'imageStyle');
+    const models = section(data, 'models');
+    if (models) {
+        MODALITIES.forEach(m => {
+            if (models[m] !== undefined && (!Array.isArray(models[m]) || models[m].some((x: unknown) => typeof x !== 'string'))) {
+                issues.push(`models.${m}: expected array of model names`);
+            }
+        });
+    }
+
+    return issues;
+};
+
+/**
+ * Upgrades saved project data to the current schema and validates it.
+ * Throws with every validation problem listed when the data can't be used.
+ */
+export const migrateProject = (data: unknown): Project => {
+    if (!isObject(data)) throw new Error(`Invalid project: expected an object, got ${describe(data)}.`);
+
+    const from = typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+    if (from > CURRENT_SCHEMA_VERSION) {
+        throw new Error(`This project was saved by a newer version of the app (schema ${from}). Please update to open it.`);
+    }
+    let project: RawProject = data;
+    for (let version = from; version < CURRENT_SCHEMA_VERSION; version++) {
+        project = MIGRATIONS[version](project);
+    }
+    project = { ...project, schemaVersion: CURRENT_SCHEMA_VERSION };
+
+    const issues = validateProject(project);
+    if (issues.length) throw new Error(`Invalid project:\n${issues.map(i => `• ${i}`).join('\n')}`);
+    return project as Project;
+};
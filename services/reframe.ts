@@ -0,0 +1,135 @@
+import { AspectRatio } from "../types";
+
+// Derives a scene image for another aspect ratio from an existing one: either crop the largest
+// window of the new shape around a focal point, or pad the image to the new shape and have the
+// image model paint the padding (outpainting) when a crop would cut the characters out.
+
+// Fractions of the image size (0..1), origin top-left
+export interface FocusPoint {
+    x: number;
+    y: number;
+}
+
+export interface SubjectBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+const ratioOf = (aspect: AspectRatio): number => {
+    const [w, h] = aspect.split(':').map(Number);
+    return w / h;
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not decode image."));
+    img.src = src;
+});
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+/** Largest window of `aspect` inside a width×height image, centred on `focus` as far as the edges allow. */
+export const cropWindow = (width: number, height: number, aspect: AspectRatio, focus: FocusPoint): Rect => {
+    const ratio = ratioOf(aspect);
+    const cropW = Math.min(width, height * ratio);
+    const cropH = cropW / ratio;
+    return {
+        x: clamp(focus.x * width - cropW / 2, 0, width - cropW),
+        y: clamp(focus.y * height - cropH / 2, 0, height - cropH),
+        width: cropW,
+        height: cropH,
+    };
+};
+
+/** Whether cropping to `aspect` around `focus` would leave part of `subjects` outside the frame. */
+export const cropCutsSubjects = (width: number, height: number, aspect: AspectRatio, focus: FocusPoint, subjects: SubjectBox): boolean => {
+    const win = cropWindow(width, height, aspect, focus);
+    const tolerance = 0.02; // A sliver of hair or a shoulder is an acceptable loss
+    return subjects.x * width < win.x - tolerance * width
+        || subjects.y * height < win.y - tolerance * height
+        || (subjects.x + subjects.width) * width > win.x + win.width + tolerance * width
+        || (subjects.y + subjects.height) * height > win.y + win.height + tolerance * height;
+};
+
+/** Centre of the subjects, clamped to the image: the natural focal point for a crop. */
+export const focusOfSubjects = (subjects: SubjectBox): FocusPoint => ({
+    x: clamp(subjects.x + subjects.width / 2, 0, 1),
+    y: clamp(subjects.y + subjects.height / 2, 0, 1),
+});
+
+export const cropToAspect = async (dataUrl: string, aspect: AspectRatio, focus: FocusPoint): Promise<string> => {
+    const img = await loadImage(dataUrl);
+    const win = cropWindow(img.naturalWidth, img.naturalHeight, aspect, focus);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(win.width);
+    canvas.height = Math.round(win.height);
+    canvas.getContext('2d')!.drawImage(img, win.x, win.y, win.width, win.height, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Centre-crops to `aspect` and scales so the short side is `shortSide` pixels (the crop's own size
+ * when omitted): the still-image counterpart of how the video renderer cover-fits a frame.
+ * `overlay` draws on top of the framed image, e.g. a burned-in caption.
+ */
+export const frameStill = async (dataUrl: string, aspect: AspectRatio, shortSide?: number, overlay?: (ctx: CanvasRenderingContext2D) => void): Promise<string> => {
+    const img = await loadImage(dataUrl);
+    const win = cropWindow(img.naturalWidth, img.naturalHeight, aspect, { x: 0.5, y: 0.5 });
+    const scale = shortSide ? shortSide / Math.min(win.width, win.height) : 1;
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(win.width * scale);
+    canvas.height = Math.round(win.height * scale);
+    const ctx = canvas.getContext('2d')!;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, win.x, win.y, win.width, win.height, 0, 0, canvas.width, canvas.height);
+    overlay?.(ctx);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Centres the image on a canvas of `aspect` that contains it whole. Returns the padded image and
+ * an edit mask of the same size, white over the padding, for the model to fill in.
+ */
+export const padToAspect = async (dataUrl: string, aspect: AspectRatio): Promise<{ image: string; mask: string }> => {
+    const img = await loadImage(dataUrl);
+    const ratio = ratioOf(aspect);
+    const width = Math.round(Math.max(img.naturalWidth, img.naturalHeight * ratio));
+    const height = Math.round(width / ratio);
+    const x = Math.round((width - img.naturalWidth) / 2);
+    const y = Math.round((height - img.naturalHeight) / 2);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    // Stretched, blurred copy as the fill gives the model colours to continue instead of a flat border
+    ctx.filter = 'blur(24px)';
+    ctx.drawImage(img, 0, 0, width, height);
+    ctx.filter = 'none';
+    ctx.drawImage(img, x, y);
+    const image = canvas.toDataURL('image/png');
+
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, width, height);
+    ctx.fillStyle = 'black';
+    ctx.fillRect(x, y, img.naturalWidth, img.naturalHeight);
+    return { image, mask: canvas.toDataURL('image/png') };
+};
+
+export const imageSize = async (dataUrl: string): Promise<{ width: number; height: number }> => {
+    const img = await loadImage(dataUrl);
+    return { width: img.naturalWidth, height: img.naturalHeight };
+};
+
+// The shapes platforms ask for (see EXPORT_PRESETS in videoRenderer) plus square
+export const REFRAME_ASPECTS: AspectRatio[] = ['16:9', '9:16', '1:1', '4:5'];
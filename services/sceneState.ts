@@ -0,0 +1,61 @@
+import { Scene, ImageTake, AspectRatio } from "../types";
+
+// Text fields a user can edit (or regenerate) on a scene. Media records the text it was generated from
+// (audioSource / imageSource) so edits can be flagged as making it stale.
+
+export type SceneTextEdit = Partial<Pick<Scene, 'narrative' | 'segments' | 'imagePrompt' | 'motionPrompt' | 'characterNames'>>;
+
+// Speaker changes matter to audio as much as wording, so segments are compared whole
+export const audioSourceOf = (scene: Scene): string =>
+    JSON.stringify(scene.segments?.length ? scene.segments : scene.narrative);
+
+export const imageSourceOf = (scene: Scene): string => scene.imagePrompt;
+
+// Media from before source tracking (or uploaded by hand) is never reported stale
+export const isAudioStale = (scene: Scene): boolean =>
+    !!scene.audioData && scene.audioSource !== undefined && scene.audioSource !== audioSourceOf(scene);
+
+export const isImageStale = (scene: Scene): boolean =>
+    !!scene.imageUrl && scene.imageSource !== undefined && scene.imageSource !== imageSourceOf(scene);
+
+// Ids stay fixed through renumbering and reordering, so media writes and undo follow the scene
+export const createSceneId = (): string => `scene_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+// sceneNumber is display order; call after any insert, delete or move
+export const renumberScenes = (scenes: Scene[]): Scene[] =>
+    scenes.map((scene, i) => scene.sceneNumber === i + 1 ? scene : { ...scene, sceneNumber: i + 1 });
+
+export const createTakeId = (): string => `take_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+/** Scene fields that make `take` the scene's current image. */
+export const selectTake = (take: ImageTake): Partial<Scene> => ({
+    selectedTakeId: take.id,
+    imageUrl: take.url,
+    imageModel: take.model,
+    imageSource: take.source,
+});
+
+/**
+ * Adds a take to the gallery. It becomes the selected image when asked to, or when the scene has
+ * no usable image yet (none, or one made from an older prompt); otherwise the pick is left alone.
+ * A take identical to one already in the gallery (e.g. served from the cache) reuses that entry.
+ */
+export const addTake = (scene: Scene, take: ImageTake, select = false): Scene => {
+    const existing = scene.imageTakes?.find(t => t.url === take.url);
+    const added = existing || take;
+    return {
+        ...scene,
+        imageTakes: existing ? scene.imageTakes : [...(scene.imageTakes || []), take],
+        ...(select || !scene.imageUrl || isImageStale(scene) ? selectTake(added) : {}),
+    };
+};
+
+/** The scene's image for `aspect`: the main image at the project's ratio, else its reframe (if any). */
+export const imageForAspect = (scene: Scene, aspect: AspectRatio, projectAspect: AspectRatio): string | undefined =>
+    aspect === projectAspect ? scene.imageUrl : scene.reframes?.[aspect]?.url;
+
+// Reframes follow a take; picking another take leaves them showing the old one
+export const isReframeOutdated = (scene: Scene, aspect: AspectRatio): boolean => {
+    const reframe = scene.reframes?.[aspect];
+    return !!reframe && reframe.takeId !== scene.selectedTakeId;
+};
@@ -0,0 +1,609 @@
+import { Project } from "../types";
+import { migrateProject } from "./projectSchema";
+
+// Project storage backed by IndexedDB. Project JSON and media live in separate stores:
+// scene images, narration and character references are saved once as Blobs, keyed by a hash
+// of their content, and replaced in the stored JSON by `idb:` references. The archive, the
+// autosaved session and revision snapshots all share the same media, so a snapshot only
+// costs its JSON, and listing the archive never touches the heavy data.
+// A separate store caches generation results by request hash (see services/mediaCache.ts), with a
+// small index of sizes and last use so eviction never has to read the cached Blobs.
+
+const DB_NAME = 'story_studio';
+const DB_VERSION = 4;
+const PROJECTS = 'projects';
+const MEDIA = 'media';
+const SESSION = 'session';
+const REVISIONS = 'revisions';
+const GENERATION_CACHE = 'generationCache';
+const GENERATION_CACHE_INDEX = 'generationCacheIndex';
+const CACHE_STATS_KEY = 'stats'; // Entry keys are hashes (sha256/..., fnv/...), so this can't clash
+const CACHE_MAX_BYTES = 200 * 1024 * 1024; // Least recently used entries are evicted past this
+const SESSION_KEY = 'current';
+const LEGACY_ARCHIVE_KEY = 'story_studio_projects';
+const LEGACY_ARCHIVE_BACKUP_KEY = 'story_studio_projects_unmigrated'; // What couldn't be migrated
+const MEDIA_REF = 'idb:';
+const MAX_REVISIONS = 20; // Per project; the oldest are pruned
+
+export interface ProjectSummary {
+    id: string;
+    title?: string;
+    createdAt: number;
+    lastSaved?: number;
+    sceneCount: number;
+    category: string;
+    thumbnailKey?: string; // Media key of a small preview image
+}
+
+// What triggered a revision snapshot
+export type RevisionReason = 'regenerateScript' | 'generateAllAudio' | 'generateAllImages' | 'regenerateStale' | 'deleteScene' | 'restore';
+
+export interface RevisionSummary {
+    id: string;
+    projectId: string;
+    createdAt: number;
+    reason: RevisionReason;
+    title?: string;
+    sceneCount: number;
+}
+
+interface StoredProject {
+    id: string;
+    summary: ProjectSummary;
+    project: Project; // Media fields hold `idb:` references
+}
+
+interface StoredRevision {
+    id: string;
+    summary: RevisionSummary;
+    project: Project;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: 'id' });
+                if (!db.objectStoreNames.contains(MEDIA)) db.createObjectStore(MEDIA);
+                if (!db.objectStoreNames.contains(SESSION)) db.createObjectStore(SESSION);
+                if (!db.objectStoreNames.contains(REVISIONS)) {
+                    db.createObjectStore(REVISIONS, { keyPath: 'id' }).createIndex('projectId', 'summary.projectId');
+                }
+                if (!db.objectStoreNames.contains(GENERATION_CACHE)) db.createObjectStore(GENERATION_CACHE);
+                if (!db.objectStoreNames.contains(GENERATION_CACHE_INDEX)) {
+                    db.createObjectStore(GENERATION_CACHE_INDEX, { keyPath: 'key' }).createIndex('lastUsed', 'lastUsed');
+                    // Entries written before the index existed could never be evicted; it's only a cache, so start over
+                    request.transaction!.objectStore(GENERATION_CACHE).clear();
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error || new Error("Could not open project storage."));
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Storage transaction aborted."));
+});
+
+// --- Media conversion ---
+
+export const decodeMedia = (value: string, fallbackType: string): { bytes: Uint8Array; type: string } => {
+    const [header, base64] = value.startsWith('data:') ? value.split(',', 2) : ['', value];
+    const type = header.match(/^data:([^;]+)/)?.[1] || fallbackType;
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return { bytes, type };
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+// crypto.subtle is missing outside secure contexts (e.g. the dev server opened over a LAN IP)
+export const hashBytes = async (bytes: Uint8Array): Promise<string> => {
+    if (globalThis.crypto?.subtle) return 'sha256/' + toHex(await crypto.subtle.digest('SHA-256', bytes));
+    let h1 = 0x811c9dc5, h2 = 0x01000193;
+    for (let i = 0; i < bytes.length; i++) {
+        h1 = Math.imul(h1 ^ bytes[i], 16777619);
+        h2 = Math.imul(h2 ^ bytes[i], 2246822519);
+    }
+    return `fnv/${(h1 >>> 0).toString(16)}${(h2 >>> 0).toString(16)}-${bytes.length}`;
+};
+
+// Autosave runs often; remember which media strings were already hashed and stored. Entries are
+// keyed by a cheap 64-bit hash of the whole string (far faster than decoding and SHA-256) rather
+// than the string itself, so the cache doesn't pin hundreds of megabytes of base64, and added only
+// once the Blob has committed.
+const keyCache = new Map<string, string>();
+const KEY_CACHE_LIMIT = 200;
+
+const fingerprint = (value: string): string => {
+    let h1 = 0x811c9dc5, h2 = 0x01000193;
+    for (let i = 0; i < value.length; i++) {
+        const c = value.charCodeAt(i);
+        h1 = Math.imul(h1 ^ c, 16777619);
+        h2 = Math.imul(h2 ^ c, 2246822519);
+    }
+    return `${value.length}:${(h1 >>> 0).toString(16)}${(h2 >>> 0).toString(16)}`;
+};
+
+/** Hashes a media string, queueing its Blob in `pending` and its fingerprint in `hashed` for {@link rememberMediaKeys}. */
+const mediaKeyFor = async (value: string, fallbackType: string, pending: Map<string, Blob>, hashed: Map<string, string>): Promise<string> => {
+    const print = fingerprint(value);
+    const cached = keyCache.get(print);
+    if (cached) return cached;
+    const { bytes, type } = decodeMedia(value, fallbackType);
+    const key = await hashBytes(bytes);
+    pending.set(key, new Blob([bytes], { type }));
+    hashed.set(print, key);
+    return key;
+};
+
+// Called once the transaction holding the Blobs has committed
+const rememberMediaKeys = (hashed: Map<string, string>) => {
+    hashed.forEach((key, print) => {
+        if (keyCache.size >= KEY_CACHE_LIMIT) keyCache.delete(keyCache.keys().next().value!);
+        keyCache.set(print, key);
+    });
+};
+
+// Small JPEG preview for the archive list
+const makeThumbnail = async (dataUrl: string, maxSide = 160): Promise<Blob | null> => {
+    try {
+        const { bytes, type } = decodeMedia(dataUrl, 'image/png');
+        const bitmap = await createImageBitmap(new Blob([bytes], { type }));
+        const scale = Math.min(1, maxSide / Math.max(bitmap.width, bitmap.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(bitmap.width * scale);
+        canvas.height = Math.round(bitmap.height * scale);
+        canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+        bitmap.close();
+        return await new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Swaps a project's media for `idb:` references and returns the Blobs that may need writing.
+ * Must run before the write transaction opens, as it awaits non-IDB work. Pass `hashed` to
+ * {@link rememberMediaKeys} after that transaction commits.
+ */
+const extractMedia = async (project: Project): Promise<{ stripped: Project; media: Map<string, Blob>; hashed: Map<string, string> }> => {
+    const media = new Map<string, Blob>();
+    const hashed = new Map<string, string>(); // fingerprint -> media key, for strings hashed this time
+    const refs = new Map<string, string>(); // media string -> reference
+    const ref = async (value: string | undefined, fallbackType: string) => {
+        if (!value || value.startsWith(MEDIA_REF)) return value;
+        if (!refs.has(value)) refs.set(value, MEDIA_REF + await mediaKeyFor(value, fallbackType, media, hashed));
+        return refs.get(value);
+    };
+
+    const scenes = project.output ? await Promise.all(project.output.scenes.map(async scene => ({
+        ...scene,
+        imageUrl: await ref(scene.imageUrl, 'image/png'),
+        imageTakes: scene.imageTakes && await Promise.all(scene.imageTakes.map(async take => ({ ...take, url: (await ref(take.url, 'image/png'))! }))),
+        reframes: scene.reframes && Object.fromEntries(await Promise.all(Object.entries(scene.reframes).map(async ([aspect, reframe]) =>
+            [aspect, { ...reframe!, url: (await ref(reframe!.url, 'image/png'))! }]))),
+        audioData: await ref(scene.audioData, 'audio/wav'),
+    }))) : [];
+    const characters = await Promise.all((project.config.characters || []).map(async c => ({
+        ...c,
+        image: await ref(c.image, 'image/png'),
+    })));
+
+    return {
+        media,
+        hashed,
+        stripped: {
+            ...project,
+            config: { ...project.config, characters },
+            output: project.output ? { ...project.output, scenes } : null,
+        },
+    };
+};
+
+/** Writes the Blobs the media store doesn't already hold, inside the caller's transaction. */
+const putMissingMedia = async (tx: IDBTransaction, media: Map<string, Blob>) => {
+    const store = tx.objectStore(MEDIA);
+    const keys = [...media.keys()];
+    const existing = await Promise.all(keys.map(key => requestToPromise(store.getKey(key))));
+    keys.forEach((key, i) => {
+        if (existing[i] === undefined) store.put(media.get(key), key);
+    });
+};
+
+/** Resolves `idb:` references back into the data URLs / base64 the app works with. */
+const hydrate = async (project: Project): Promise<Project> => {
+    const resolveRef = async (value: string | undefined, raw = false): Promise<string | undefined> => {
+        if (!value?.startsWith(MEDIA_REF)) return value;
+        const blob = await getMediaBlob(value.slice(MEDIA_REF.length));
+        if (!blob) return undefined;
+        const dataUrl = await blobToDataUrl(blob);
+        // Scene audio is kept as bare base64 throughout the app
+        return raw ? dataUrl.split(',')[1] : dataUrl;
+    };
+
+    const scenes = project.output ? await Promise.all(project.output.scenes.map(async scene => ({
+        ...scene,
+        imageUrl: await resolveRef(scene.imageUrl),
+        // A take whose Blob went missing is dropped rather than shown broken
+        imageTakes: scene.imageTakes && (await Promise.all(scene.imageTakes.map(async take => ({ ...take, url: (await resolveRef(take.url))! }))))
+            .filter(take => take.url),
+        reframes: scene.reframes && Object.fromEntries((await Promise.all(Object.entries(scene.reframes).map(async ([aspect, reframe]) =>
+            [aspect, { ...reframe!, url: (await resolveRef(reframe!.url))! }] as const))).filter(([, reframe]) => reframe.url)),
+        audioData: await resolveRef(scene.audioData, true),
+    }))) : [];
+    const characters = await Promise.all((project.config.characters || []).map(async c => ({ ...c, image: await resolveRef(c.image) })));
+
+    return {
+        ...project,
+        config: { ...project.config, characters },
+        output: project.output ? { ...project.output, scenes } : null,
+    };
+};
+
+/**
+ * Deletes media no longer referenced by any archived project, revision or the session.
+ * Autosave leaves replaced media behind, so this also runs once at startup.
+ * Reads only project JSON, so it stays cheap however much media is stored.
+ */
+export const collectGarbage = async (): Promise<void> => {
+    // Cached keys may point at Blobs about to be deleted; re-hash next time instead
+    keyCache.clear();
+    const db = await openDb();
+    const tx = db.transaction([PROJECTS, SESSION, REVISIONS, MEDIA], 'readwrite');
+    const [projects, sessions, revisions, mediaKeys] = await Promise.all([
+        requestToPromise(tx.objectStore(PROJECTS).getAll()),
+        requestToPromise(tx.objectStore(SESSION).getAll()),
+        requestToPromise(tx.objectStore(REVISIONS).getAll()),
+        requestToPromise(tx.objectStore(MEDIA).getAllKeys()),
+    ]);
+    const referenced = new Set<string>();
+    const collect = (record: unknown) => {
+        for (const match of JSON.stringify(record).matchAll(/"idb:([^"]+)"/g)) referenced.add(match[1]);
+    };
+    (projects as StoredProject[]).forEach(p => {
+        collect(p.project);
+        if (p.summary.thumbnailKey) referenced.add(p.summary.thumbnailKey);
+    });
+    sessions.forEach(collect);
+    (revisions as StoredRevision[]).forEach(r => collect(r.project));
+
+    const media = tx.objectStore(MEDIA);
+    mediaKeys.forEach(key => {
+        if (!referenced.has(String(key))) media.delete(key);
+    });
+    await transactionDone(tx);
+};
+
+// --- Archive ---
+
+export const saveProject = async (project: Project): Promise<ProjectSummary> => {
+    const { stripped, media, hashed } = await extractMedia(project);
+    const firstImage = project.output?.scenes.find(s => s.imageUrl)?.imageUrl;
+    const thumbnail = firstImage ? await makeThumbnail(firstImage) : null;
+    const thumbnailKey = `thumbnail/${project.id}`;
+
+    const summary: ProjectSummary = {
+        id: project.id,
+        title: project.title,
+        createdAt: project.createdAt,
+        lastSaved: project.lastSaved,
+        sceneCount: project.output?.scenes.length || project.config.sceneCount,
+        category: project.config.category,
+        thumbnailKey: thumbnail ? thumbnailKey : undefined,
+    };
+
+    const db = await openDb();
+    const tx = db.transaction([PROJECTS, MEDIA], 'readwrite');
+    await putMissingMedia(tx, media);
+    if (thumbnail) tx.objectStore(MEDIA).put(thumbnail, thumbnailKey);
+    tx.objectStore(PROJECTS).put({ id: project.id, summary, project: stripped } as StoredProject);
+    await transactionDone(tx);
+    rememberMediaKeys(hashed);
+    return summary;
+};
+
+/** Lists saved projects, newest first, without loading any media. */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+    const db = await openDb();
+    const stored = await requestToPromise(db.transaction(PROJECTS).objectStore(PROJECTS).getAll()) as StoredProject[];
+    return stored
+        .map(s => s.summary)
+        .sort((a, b) => (b.lastSaved || b.createdAt) - (a.lastSaved || a.createdAt));
+};
+
+export const loadProject = async (id: string): Promise<Project> => {
+    const db = await openDb();
+    const stored = await requestToPromise(db.transaction(PROJECTS).objectStore(PROJECTS).get(id)) as StoredProject | undefined;
+    if (!stored) throw new Error("Project not found in the archive.");
+    return hydrate(stored.project);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction([PROJECTS, MEDIA], 'readwrite');
+    tx.objectStore(PROJECTS).delete(id);
+    tx.objectStore(MEDIA).delete(`thumbnail/${id}`);
+    await transactionDone(tx);
+    await collectGarbage();
+};
+
+export const getMediaBlob = async (key: string): Promise<Blob | undefined> => {
+    const db = await openDb();
+    return requestToPromise(db.transaction(MEDIA).objectStore(MEDIA).get(key)) as Promise<Blob | undefined>;
+};
+
+// --- Session (autosave) ---
+
+export interface SavedSession {
+    project: Project;
+    savedAt: number;
+}
+
+export const saveSession = async (project: Project): Promise<void> => {
+    const { stripped, media, hashed } = await extractMedia(project);
+    const db = await openDb();
+    const tx = db.transaction([SESSION, MEDIA], 'readwrite');
+    await putMissingMedia(tx, media);
+    tx.objectStore(SESSION).put({ project: stripped, savedAt: Date.now() } as SavedSession, SESSION_KEY);
+    await transactionDone(tx);
+    rememberMediaKeys(hashed);
+};
+
+export const loadSession = async (): Promise<SavedSession | null> => {
+    const db = await openDb();
+    const stored = await requestToPromise(db.transaction(SESSION).objectStore(SESSION).get(SESSION_KEY)) as SavedSession | undefined;
+    return stored ? { project: await hydrate(stored.project), savedAt: stored.savedAt } : null;
+};
+
+export const clearSession = async (): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction(SESSION, 'readwrite');
+    tx.objectStore(SESSION).delete(SESSION_KEY);
+    await transactionDone(tx);
+    await collectGarbage();
+};
+
+// --- Revisions ---
+
+/** Snapshots the project so a later destructive step can be undone. */
+export const saveRevision = async (project: Project, reason: RevisionReason): Promise<RevisionSummary> => {
+    const { stripped, media, hashed } = await extractMedia(project);
+    const summary: RevisionSummary = {
+        id: `${project.id}-${Date.now()}`,
+        projectId: project.id,
+        createdAt: Date.now(),
+        reason,
+        title: project.output?.title,
+        sceneCount: project.output?.scenes.length || 0,
+    };
+
+    const db = await openDb();
+    const tx = db.transaction([REVISIONS, MEDIA], 'readwrite');
+    await putMissingMedia(tx, media);
+    const revisions = tx.objectStore(REVISIONS);
+    revisions.put({ id: summary.id, summary, project: stripped } as StoredRevision);
+    const keys = await requestToPromise(revisions.index('projectId').getAllKeys(project.id));
+    // Ids end in a timestamp, so sorted order is chronological
+    const excess = keys.map(String).sort().slice(0, Math.max(0, keys.length - MAX_REVISIONS));
+    excess.forEach(key => revisions.delete(key));
+    await transactionDone(tx);
+    rememberMediaKeys(hashed);
+    if (excess.length) await collectGarbage();
+    return summary;
+};
+
+/** Revisions of one project, newest first. */
+export const listRevisions = async (projectId: string): Promise<RevisionSummary[]> => {
+    const db = await openDb();
+    const stored = await requestToPromise(
+        db.transaction(REVISIONS).objectStore(REVISIONS).index('projectId').getAll(projectId)
+    ) as StoredRevision[];
+    return stored.map(r => r.summary).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const loadRevision = async (id: string): Promise<Project> => {
+    const db = await openDb();
+    const stored = await requestToPromise(db.transaction(REVISIONS).objectStore(REVISIONS).get(id)) as StoredRevision | undefined;
+    if (!stored) throw new Error("Revision not found.");
+    return hydrate(stored.project);
+};
+
+export interface LegacyMigrationResult {
+    migrated: number;
+    failed: { title: string; error: string }[];
+    unreadable: boolean; // The legacy value wasn't a JSON list of projects; nothing was migrated
+    backupKey: string; // localStorage key the unmigrated data was moved to
+}
+
+/**
+ * One-time move of the old localStorage archive into IndexedDB. Each project goes through
+ * migrateProject like any other loaded file; ones that fail validation are skipped and reported.
+ * They, or the whole value when it can't be read as a list of projects, are moved to a backup key
+ * so nothing is lost and the problem is reported once rather than on every start. The legacy key
+ * is only cleared once every valid project has been written, so a failed write is retried next run.
+ */
+export const migrateLegacyArchive = async (): Promise<LegacyMigrationResult> => {
+    const result: LegacyMigrationResult = { migrated: 0, failed: [], unreadable: false, backupKey: LEGACY_ARCHIVE_BACKUP_KEY };
+    const legacy = localStorage.getItem(LEGACY_ARCHIVE_KEY);
+    if (!legacy) return result;
+    let entries: unknown;
+    try {
+        entries = JSON.parse(legacy);
+    } catch {
+        entries = undefined;
+    }
+    if (!Array.isArray(entries)) {
+        localStorage.setItem(LEGACY_ARCHIVE_BACKUP_KEY, legacy);
+        localStorage.removeItem(LEGACY_ARCHIVE_KEY);
+        return { ...result, unreadable: true };
+    }
+    const kept: unknown[] = [];
+    for (const entry of entries) {
+        let project: Project;
+        try {
+            project = migrateProject(entry);
+        } catch (error) {
+            const title = (entry as Partial<Project> | null)?.title;
+            result.failed.push({ title: typeof title === 'string' ? title : 'Untitled', error: error instanceof Error ? error.message : String(error) });
+            kept.push(entry);
+            continue;
+        }
+        await saveProject(project);
+        result.migrated++;
+    }
+    if (kept.length) localStorage.setItem(LEGACY_ARCHIVE_BACKUP_KEY, JSON.stringify(kept));
+    localStorage.removeItem(LEGACY_ARCHIVE_KEY);
+    return result;
+};
+
+// --- Generation cache ---
+
+export interface CachedGeneration {
+    data: Blob;
+    meta: Record<string, unknown>; // e.g. the model's sample rate for speech
+    createdAt: number;
+    lastUsed: number;
+}
+
+export interface CacheStats {
+    entries: number;
+    bytes: number;
+    hits: number;
+    misses: number;
+}
+
+interface CacheCounters {
+    hits: number;
+    misses: number;
+    bytes?: number; // Running total of cached data, kept in step with the index
+}
+
+// One per cached entry in GENERATION_CACHE_INDEX
+interface CacheIndexEntry {
+    key: string;
+    size: number;
+    lastUsed: number;
+    meta?: Record<string, unknown>; // The entry's meta (kind, seed, variation...), for listing
+}
+
+export type CacheEntrySummary = Omit<CacheIndexEntry, 'key'>;
+
+/** Returns the first cached entry among `keys` (in order) and counts one hit or miss. */
+export const readGenerationCache = async (keys: string[]): Promise<{ key: string; entry: CachedGeneration } | undefined> => {
+    const db = await openDb();
+    const tx = db.transaction([GENERATION_CACHE, GENERATION_CACHE_INDEX], 'readwrite');
+    const store = tx.objectStore(GENERATION_CACHE);
+    const [entries, counters] = await Promise.all([
+        Promise.all(keys.map(key => requestToPromise(store.get(key)) as Promise<CachedGeneration | undefined>)),
+        requestToPromise(store.get(CACHE_STATS_KEY)) as Promise<CacheCounters | undefined>,
+    ]);
+    const stats = counters || { hits: 0, misses: 0 };
+    const index = entries.findIndex(Boolean);
+    const found = index >= 0 ? { key: keys[index], entry: entries[index]! } : undefined;
+    if (found) {
+        const now = Date.now();
+        store.put({ ...found.entry, lastUsed: now }, found.key);
+        tx.objectStore(GENERATION_CACHE_INDEX).put({ key: found.key, size: found.entry.data.size, lastUsed: now, meta: found.entry.meta } as CacheIndexEntry);
+    }
+    store.put(found ? { ...stats, hits: stats.hits + 1 } : { ...stats, misses: stats.misses + 1 }, CACHE_STATS_KEY);
+    await transactionDone(tx);
+    return found;
+};
+
+// Deletes least recently used entries, other than `keep`, until `excess` bytes are freed
+const evictLeastRecent = (tx: IDBTransaction, keep: string, excess: number): Promise<number> => new Promise((resolve, reject) => {
+    let freed = 0;
+    const request = tx.objectStore(GENERATION_CACHE_INDEX).index('lastUsed').openCursor();
+    request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || freed >= excess) return resolve(freed);
+        const { key, size } = cursor.value as CacheIndexEntry;
+        if (key !== keep) {
+            cursor.delete();
+            tx.objectStore(GENERATION_CACHE).delete(key);
+            freed += size;
+        }
+        cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+});
+
+export const writeGenerationCache = async (key: string, data: Blob, meta: Record<string, unknown> = {}): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction([GENERATION_CACHE, GENERATION_CACHE_INDEX], 'readwrite');
+    const store = tx.objectStore(GENERATION_CACHE);
+    const index = tx.objectStore(GENERATION_CACHE_INDEX);
+    const [previous, counters] = await Promise.all([
+        requestToPromise(index.get(key)) as Promise<CacheIndexEntry | undefined>,
+        requestToPromise(store.get(CACHE_STATS_KEY)) as Promise<CacheCounters | undefined>,
+    ]);
+    const now = Date.now();
+    store.put({ data, meta, createdAt: now, lastUsed: now } as CachedGeneration, key);
+    index.put({ key, size: data.size, lastUsed: now, meta } as CacheIndexEntry);
+
+    let bytes = (counters?.bytes || 0) - (previous?.size || 0) + data.size;
+    if (bytes > CACHE_MAX_BYTES) bytes -= await evictLeastRecent(tx, key, bytes - CACHE_MAX_BYTES);
+    store.put({ hits: 0, misses: 0, ...counters, bytes } as CacheCounters, CACHE_STATS_KEY);
+    await transactionDone(tx);
+};
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+    const db = await openDb();
+    const tx = db.transaction([GENERATION_CACHE, GENERATION_CACHE_INDEX]);
+    const [counters, entries] = await Promise.all([
+        requestToPromise(tx.objectStore(GENERATION_CACHE).get(CACHE_STATS_KEY)) as Promise<CacheCounters | undefined>,
+        requestToPromise(tx.objectStore(GENERATION_CACHE_INDEX).count()),
+    ]);
+    const { hits, misses, bytes } = counters || { hits: 0, misses: 0 };
+    return { entries, bytes: bytes || 0, hits, misses };
+};
+
+/** The most recently used cache entries, newest first, read from the index alone. */
+export const getRecentCacheEntries = async (limit: number): Promise<CacheEntrySummary[]> => {
+    const db = await openDb();
+    const request = db.transaction(GENERATION_CACHE_INDEX).objectStore(GENERATION_CACHE_INDEX).index('lastUsed').openCursor(null, 'prev');
+    return new Promise((resolve, reject) => {
+        const entries: CacheEntrySummary[] = [];
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor || entries.length >= limit) return resolve(entries);
+            const { size, lastUsed, meta } = cursor.value as CacheIndexEntry;
+            entries.push({ size, lastUsed, meta });
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const clearGenerationCache = async (): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction([GENERATION_CACHE, GENERATION_CACHE_INDEX], 'readwrite');
+    tx.objectStore(GENERATION_CACHE).clear();
+    tx.objectStore(GENERATION_CACHE_INDEX).clear();
+    await transactionDone(tx);
+};
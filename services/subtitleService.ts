@@ -0,0 +1,153 @@
+import { Scene, SubtitleSettings } from "../types";
+import { decodeWav, formatTimestamp, SILENT_SCENE_SECONDS, SceneTiming } from "./audioService";
+
+export interface Caption {
+    index: number;
+    sceneNumber: number;
+    start: number; // Seconds
+    end: number;
+    lines: string[];
+}
+
+// Hebrew, Arabic, Syriac, Thaana and the Arabic presentation forms
+const RTL_CHARS = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+const RLM = '\u200F';
+
+export const isRtl = (text: string): boolean => RTL_CHARS.test(text);
+
+// Sentence boundaries for Latin and Arabic punctuation (، ؛ ؟ …)
+const splitSentences = (text: string): string[] =>
+    (text.replace(/\s+/g, ' ').trim().match(/[^.!?؟…،؛]+[.!?؟…،؛]*\s*/g) || [])
+        .map(s => s.trim())
+        .filter(Boolean);
+
+const wrapWords = (text: string, maxChars: number): string[] => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(' ')) {
+        if (line && (line + ' ' + word).length > maxChars) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = line ? `${line} ${word}` : word;
+        }
+    }
+    if (line) lines.push(line);
+    return lines;
+};
+
+/** Breaks narration into caption blocks of at most `maxLines` lines of `maxChars` characters. */
+export const splitIntoCaptions = (text: string, maxChars: number, maxLines: number): string[][] => {
+    const blocks: string[][] = [];
+    let current: string[] = [];
+    for (const sentence of splitSentences(text)) {
+        // Short trailing fragments (e.g. after a comma) are merged into the previous line when they fit
+        for (const line of wrapWords(sentence, maxChars)) {
+            const last = current[current.length - 1];
+            if (last && (last + ' ' + line).length <= maxChars) {
+                current[current.length - 1] = `${last} ${line}`;
+            } else if (current.length < maxLines) {
+                current.push(line);
+            } else {
+                blocks.push(current);
+                current = [line];
+            }
+        }
+        // Prefer to end a caption at a sentence end
+        if (current.length >= maxLines) {
+            blocks.push(current);
+            current = [];
+        }
+    }
+    if (current.length) blocks.push(current);
+    return blocks;
+};
+
+const sceneDuration = (scene: Scene): number => {
+    if (!scene.audioData) return SILENT_SCENE_SECONDS;
+    const { pcm, sampleRate } = decodeWav(scene.audioData);
+    return pcm.length / sampleRate;
+};
+
+/**
+ * Times captions against the same back-to-back scene timeline the video renderer uses, or, given
+ * `timings` (see narrationTimings), against the stitched narration track, where scenes without
+ * audio are left out. Within a scene, time is shared out in proportion to each caption's length.
+ */
+export const buildCaptions = (scenes: Scene[], settings: Pick<SubtitleSettings, 'maxCharsPerLine' | 'maxLines'>, timings?: SceneTiming[]): Caption[] => {
+    const captions: Caption[] = [];
+    let cursor = 0;
+    for (const scene of [...scenes].sort((a, b) => a.sceneNumber - b.sceneNumber)) {
+        const timing = timings?.find(tm => tm.sceneNumber === scene.sceneNumber);
+        if (timings && !timing) continue;
+        if (timing) cursor = timing.start;
+        const duration = timing ? timing.end - timing.start : sceneDuration(scene);
+        const blocks = splitIntoCaptions(scene.narrative || '', settings.maxCharsPerLine, settings.maxLines);
+        const totalChars = blocks.reduce((sum, b) => sum + b.join(' ').length, 0) || 1;
+        let start = cursor;
+        for (const lines of blocks) {
+            const end = start + (duration * lines.join(' ').length) / totalChars;
+            captions.push({ index: captions.length + 1, sceneNumber: scene.sceneNumber, start, end, lines });
+            start = end;
+        }
+        cursor += duration;
+    }
+    return captions;
+};
+
+// Wrapping RTL lines in RLM marks keeps trailing punctuation on the correct side in players
+const cueLine = (line: string) => isRtl(line) ? `${RLM}${line}${RLM}` : line;
+
+export const captionsToSrt = (captions: Caption[]): string =>
+    captions.map(c => [
+        String(c.index),
+        `${formatTimestamp(c.start, ',')} --> ${formatTimestamp(c.end, ',')}`,
+        ...c.lines.map(cueLine)
+    ].join('\n')).join('\n\n') + '\n';
+
+export const captionsToVtt = (captions: Caption[]): string =>
+    'WEBVTT\n\n' + captions.map(c => [
+        String(c.index),
+        `${formatTimestamp(c.start)} --> ${formatTimestamp(c.end)}`,
+        ...c.lines.map(cueLine)
+    ].join('\n')).join('\n\n') + '\n';
+
+const FONT_SCALE: Record<SubtitleSettings['fontSize'], number> = { small: 0.04, medium: 0.05, large: 0.065 };
+
+/** Burns a caption into the current canvas frame using the chosen style. */
+export const drawCaption = (ctx: CanvasRenderingContext2D, lines: string[], style: SubtitleSettings) => {
+    const { width, height } = ctx.canvas;
+    const fontSize = Math.round(Math.min(width, height) * FONT_SCALE[style.fontSize] * (height > width ? 1.1 : 1));
+    const lineHeight = fontSize * 1.35;
+    const blockHeight = lineHeight * lines.length;
+    const margin = height * 0.08;
+    const top = style.position === 'top'
+        ? margin
+        : style.position === 'middle'
+            ? (height - blockHeight) / 2
+            : height - margin - blockHeight;
+
+    ctx.save();
+    ctx.globalAlpha = 1;
+    ctx.font = `700 ${fontSize}px Tajawal, Inter, sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    lines.forEach((line, i) => {
+        ctx.direction = isRtl(line) ? 'rtl' : 'ltr';
+        const y = top + lineHeight * i + lineHeight / 2;
+        const textWidth = ctx.measureText(line).width;
+        if (style.background === 'box') {
+            ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+            const padX = fontSize * 0.4;
+            ctx.fillRect(width / 2 - textWidth / 2 - padX, y - lineHeight / 2, textWidth + padX * 2, lineHeight);
+        } else if (style.background === 'outline') {
+            ctx.lineWidth = Math.max(2, fontSize * 0.12);
+            ctx.lineJoin = 'round';
+            ctx.strokeStyle = 'rgba(0, 0, 0, 0.9)';
+            ctx.strokeText(line, width / 2, y);
+        }
+        ctx.fillStyle = style.color;
+        ctx.fillText(line, width / 2, y);
+    });
+    ctx.restore();
+};
@@ -0,0 +1,282 @@
+import { Scene, AspectRatio, SubtitleSettings } from "../types";
+import { decodeWav, resample, SILENT_SCENE_SECONDS } from "./audioService";
+import { Caption, drawCaption } from "./subtitleService";
+
+// Browser-side slideshow renderer: each scene image is held for the length of its narration,
+// animated with a Ken Burns move derived from the motion prompt, and crossfaded into the next.
+// Rendering runs in real time through MediaRecorder, so a 3-minute story takes ~3 minutes.
+
+export interface KenBurns {
+    fromScale: number;
+    toScale: number;
+    fromX: number; // Offset as a fraction of the frame width, applied to the image
+    toX: number;
+    fromY: number;
+    toY: number;
+}
+
+export interface RenderOptions {
+    aspectRatio: AspectRatio;
+    shortSide?: number; // Output height for landscape, width for portrait
+    fps?: number;
+    crossfadeSeconds?: number;
+    silentSceneSeconds?: number; // Duration of scenes that have no narration
+    captions?: Caption[]; // Burned into the frames when given
+    captionStyle?: SubtitleSettings;
+    signal?: AbortSignal;
+    onProgress?: (fraction: number) => void;
+}
+
+// Platform targets. Images are cover-fitted to the frame, so a preset whose shape differs from the
+// project's aspect ratio (e.g. Instagram 4:5 from 16:9 art) is a centre crop.
+export interface ExportPreset {
+    id: 'youtube' | 'shorts' | 'instagram';
+    label: string;
+    aspectRatio: AspectRatio;
+    shortSide: number;
+}
+
+export const EXPORT_PRESETS: ExportPreset[] = [
+    { id: 'youtube', label: 'YouTube 16:9 · 1080p', aspectRatio: '16:9', shortSide: 1080 },
+    { id: 'shorts', label: 'Shorts / Reels 9:16 · 1080×1920', aspectRatio: '9:16', shortSide: 1080 },
+    { id: 'instagram', label: 'Instagram 4:5 · 1080×1350', aspectRatio: '4:5', shortSide: 1080 },
+];
+
+export interface RenderedVideo {
+    blob: Blob;
+    mimeType: string;
+    extension: 'mp4' | 'webm';
+    duration: number;
+}
+
+interface TimelineEntry {
+    scene: Scene;
+    image: HTMLImageElement | null;
+    start: number;
+    end: number;
+    motion: KenBurns;
+}
+
+const VIDEO_MIME_CANDIDATES = [
+    'video/mp4;codecs=avc1.42E01E,mp4a.40.2',
+    'video/mp4',
+    'video/webm;codecs=vp9,opus',
+    'video/webm;codecs=vp8,opus',
+    'video/webm',
+];
+
+export const isVideoRenderSupported = (): boolean =>
+    typeof MediaRecorder !== 'undefined' && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+
+const pickMimeType = (): string => {
+    const supported = VIDEO_MIME_CANDIDATES.find(type => MediaRecorder.isTypeSupported(type));
+    if (!supported) throw new Error("This browser cannot record video.");
+    return supported;
+};
+
+// Keyword-driven camera move. Amounts are deliberately subtle to avoid revealing image edges.
+export const motionFromPrompt = (motionPrompt: string): KenBurns => {
+    const p = (motionPrompt || '').toLowerCase();
+    const move: KenBurns = { fromScale: 1.0, toScale: 1.08, fromX: 0, toX: 0, fromY: 0, toY: 0 };
+    const pan = 0.06;
+
+    if (/\b(static|locked[- ]off|still)\b/.test(p)) {
+        move.toScale = 1.02;
+    }
+    if (/(push|zoom|dolly|move|track)(ing)? in|close[- ]?up|push-in/.test(p)) {
+        move.fromScale = 1.0; move.toScale = 1.2;
+    }
+    if (/(pull|zoom|dolly)(ing)? (out|back)|pull-back|reveal/.test(p)) {
+        move.fromScale = 1.2; move.toScale = 1.0;
+    }
+    // Panning right means the camera moves right, so the image slides left
+    if (/(pan|truck|track|slide)(ning|ing|s)? (to the )?right/.test(p)) {
+        move.fromX = pan; move.toX = -pan; move.fromScale = Math.max(move.fromScale, 1.15); move.toScale = Math.max(move.toScale, 1.15);
+    } else if (/(pan|truck|track|slide)(ning|ing|s)? (to the )?left/.test(p)) {
+        move.fromX = -pan; move.toX = pan; move.fromScale = Math.max(move.fromScale, 1.15); move.toScale = Math.max(move.toScale, 1.15);
+    }
+    if (/(tilt|pan|crane|pedestal)(ing|s)? up/.test(p)) {
+        move.fromY = -pan; move.toY = pan; move.fromScale = Math.max(move.fromScale, 1.15); move.toScale = Math.max(move.toScale, 1.15);
+    } else if (/(tilt|pan|crane|pedestal)(ing|s)? down/.test(p)) {
+        move.fromY = pan; move.toY = -pan; move.fromScale = Math.max(move.fromScale, 1.15); move.toScale = Math.max(move.toScale, 1.15);
+    }
+    return move;
+};
+
+export const frameSize = (aspectRatio: AspectRatio, shortSide = 720): { width: number; height: number } => {
+    const [w, h] = aspectRatio.split(':').map(Number);
+    // Encoders want even dimensions
+    const even = (n: number) => Math.round(n / 2) * 2;
+    return w >= h
+        ? { width: even((shortSide * w) / h), height: shortSide }
+        : { width: shortSide, height: even((shortSide * h) / w) };
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load scene image."));
+    img.src = src;
+});
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+const easeInOut = (t: number) => t * t * (3 - 2 * t);
+
+const drawScene = (ctx: CanvasRenderingContext2D, entry: TimelineEntry, time: number, alpha: number) => {
+    const { width, height } = ctx.canvas;
+    ctx.globalAlpha = alpha;
+    if (!entry.image) {
+        ctx.fillStyle = '#0B1120';
+        ctx.fillRect(0, 0, width, height);
+        return;
+    }
+    const progress = easeInOut(Math.min(1, Math.max(0, (time - entry.start) / (entry.end - entry.start))));
+    const { motion, image } = entry;
+    const scale = lerp(motion.fromScale, motion.toScale, progress);
+    // Cover-fit, then apply the move around the frame centre
+    const cover = Math.max(width / image.naturalWidth, height / image.naturalHeight) * scale;
+    const drawW = image.naturalWidth * cover;
+    const drawH = image.naturalHeight * cover;
+    const maxX = (drawW - width) / 2;
+    const maxY = (drawH - height) / 2;
+    const offsetX = Math.max(-maxX, Math.min(maxX, lerp(motion.fromX, motion.toX, progress) * width));
+    const offsetY = Math.max(-maxY, Math.min(maxY, lerp(motion.fromY, motion.toY, progress) * height));
+    ctx.drawImage(image, (width - drawW) / 2 + offsetX, (height - drawH) / 2 + offsetY, drawW, drawH);
+};
+
+/** Draws the frame at `time` (seconds), including any crossfade straddling a scene boundary. */
+export const drawTimelineFrame = (ctx: CanvasRenderingContext2D, timeline: TimelineEntry[], time: number, crossfade: number) => {
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+
+    let index = timeline.findIndex(e => time < e.end);
+    if (index === -1) index = timeline.length - 1;
+    const current = timeline[index];
+    drawScene(ctx, current, time, 1);
+
+    // Blend in the next scene over the last half of the crossfade window, and out of the previous one over the first half
+    const half = crossfade / 2;
+    const next = timeline[index + 1];
+    if (next && half > 0 && time > current.end - half) {
+        drawScene(ctx, next, time, easeInOut((time - (current.end - half)) / crossfade));
+    }
+    const prev = timeline[index - 1];
+    if (prev && half > 0 && time < current.start + half) {
+        drawScene(ctx, prev, time, 1 - easeInOut((time - (current.start - half)) / crossfade));
+    }
+    ctx.globalAlpha = 1;
+};
+
+export const renderStoryVideo = async (scenes: Scene[], options: RenderOptions): Promise<RenderedVideo> => {
+    if (!isVideoRenderSupported()) throw new Error("Video rendering is not supported in this browser.");
+    const fps = options.fps ?? 30;
+    const crossfade = options.crossfadeSeconds ?? 0.6;
+    const silentSceneSeconds = options.silentSceneSeconds ?? SILENT_SCENE_SECONDS;
+    const ordered = [...scenes].sort((a, b) => a.sceneNumber - b.sceneNumber);
+    if (!ordered.some(s => s.imageUrl)) throw new Error("Generate scene images before rendering a video.");
+    if (options.signal?.aborted) throw new DOMException("Video render cancelled.", 'AbortError');
+
+    // --- Build the audio track and timeline together so visuals follow narration exactly ---
+    const sampleRate = 24000;
+    const clips = ordered.map(scene => {
+        if (!scene.audioData) return new Int16Array(Math.round(silentSceneSeconds * sampleRate));
+        const decoded = decodeWav(scene.audioData);
+        return resample(decoded.pcm, decoded.sampleRate, sampleRate);
+    });
+    const images = await Promise.all(ordered.map(s => s.imageUrl ? loadImage(s.imageUrl).catch(() => null) : Promise.resolve(null)));
+
+    const timeline: TimelineEntry[] = [];
+    let cursor = 0;
+    ordered.forEach((scene, i) => {
+        const duration = clips[i].length / sampleRate;
+        timeline.push({ scene, image: images[i], start: cursor, end: cursor + duration, motion: motionFromPrompt(scene.motionPrompt) });
+        cursor += duration;
+    });
+    const totalDuration = cursor;
+
+    const { width, height } = frameSize(options.aspectRatio, options.shortSide);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    const drawFrame = (time: number) => {
+        drawTimelineFrame(ctx, timeline, time, crossfade);
+        const cue = options.captionStyle && options.captions?.find(c => time >= c.start && time < c.end);
+        if (cue) drawCaption(ctx, cue.lines, options.captionStyle!);
+    };
+    drawFrame(0);
+
+    const audioCtx = new AudioContext({ sampleRate });
+    const buffer = audioCtx.createBuffer(1, Math.max(1, Math.round(totalDuration * sampleRate)), sampleRate);
+    const channel = buffer.getChannelData(0);
+    let offset = 0;
+    for (const clip of clips) {
+        for (let i = 0; i < clip.length; i++) channel[offset + i] = clip[i] / 32768;
+        offset += clip.length;
+    }
+    const source = audioCtx.createBufferSource();
+    source.buffer = buffer;
+    const destination = audioCtx.createMediaStreamDestination();
+    source.connect(destination);
+
+    const stream = new MediaStream([
+        ...canvas.captureStream(fps).getVideoTracks(),
+        ...destination.stream.getAudioTracks(),
+    ]);
+    const mimeType = pickMimeType();
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 5_000_000 });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+
+    return new Promise<RenderedVideo>((resolve, reject) => {
+        let frameHandle = 0;
+        let aborted = false;
+
+        const cleanup = () => {
+            cancelAnimationFrame(frameHandle);
+            options.signal?.removeEventListener('abort', onAbort);
+            stream.getTracks().forEach(track => track.stop());
+            audioCtx.close();
+        };
+        const onAbort = () => {
+            aborted = true;
+            if (recorder.state !== 'inactive') recorder.stop();
+        };
+        options.signal?.addEventListener('abort', onAbort);
+
+        recorder.onstop = () => {
+            cleanup();
+            if (aborted) {
+                reject(new DOMException("Video render cancelled.", 'AbortError'));
+                return;
+            }
+            resolve({
+                blob: new Blob(chunks, { type: mimeType.split(';')[0] }),
+                mimeType,
+                extension: mimeType.startsWith('video/mp4') ? 'mp4' : 'webm',
+                duration: totalDuration
+            });
+        };
+        recorder.onerror = () => { cleanup(); reject(new Error("Video recording failed.")); };
+
+        // The audio clock drives the frames so picture and narration cannot drift apart
+        const startAt = audioCtx.currentTime + 0.1;
+        const tick = () => {
+            const time = audioCtx.currentTime - startAt;
+            if (time >= totalDuration) {
+                drawFrame(totalDuration);
+                options.onProgress?.(1);
+                if (recorder.state !== 'inactive') recorder.stop();
+                return;
+            }
+            drawFrame(Math.max(0, time));
+            options.onProgress?.(Math.max(0, time) / totalDuration);
+            frameHandle = requestAnimationFrame(tick);
+        };
+
+        recorder.start(1000);
+        source.start(startAt);
+        frameHandle = requestAnimationFrame(tick);
+    });
+};
@@ -0,0 +1,135 @@
+// Minimal ZIP support for project bundles. Writing uses the "stored" method (media is already
+// compressed, so deflating it gains little); reading also accepts deflate, which is what
+// operating systems produce when a user re-zips an extracted bundle.
+
+export interface ZipEntry {
+    name: string; // Path inside the archive, forward slashes
+    data: Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+export const crc32 = (bytes: Uint8Array): number => {
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIR = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+
+const dosDateTime = (date: Date) => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+export const createZip = (entries: ZipEntry[], modified = new Date()): Blob => {
+    const encoder = new TextEncoder();
+    const { time, date } = dosDateTime(modified);
+    const parts: Uint8Array[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.name);
+        const crc = crc32(entry.data);
+
+        const local = new Uint8Array(30 + name.length);
+        const lv = new DataView(local.buffer);
+        lv.setUint32(0, LOCAL_HEADER, true);
+        lv.setUint16(4, 20, true); // Version needed
+        lv.setUint16(6, UTF8_FLAG, true);
+        lv.setUint16(8, 0, true); // Stored
+        lv.setUint16(10, time, true);
+        lv.setUint16(12, date, true);
+        lv.setUint32(14, crc, true);
+        lv.setUint32(18, entry.data.length, true);
+        lv.setUint32(22, entry.data.length, true);
+        lv.setUint16(26, name.length, true);
+        local.set(name, 30);
+
+        const header = new Uint8Array(46 + name.length);
+        const cv = new DataView(header.buffer);
+        cv.setUint32(0, CENTRAL_HEADER, true);
+        cv.setUint16(4, 20, true); // Version made by
+        cv.setUint16(6, 20, true);
+        cv.setUint16(8, UTF8_FLAG, true);
+        cv.setUint16(10, 0, true);
+        cv.setUint16(12, time, true);
+        cv.setUint16(14, date, true);
+        cv.setUint32(16, crc, true);
+        cv.setUint32(20, entry.data.length, true);
+        cv.setUint32(24, entry.data.length, true);
+        cv.setUint16(28, name.length, true);
+        cv.setUint32(42, offset, true);
+        header.set(name, 46);
+
+        parts.push(local, entry.data);
+        central.push(header);
+        offset += local.length + entry.data.length;
+    }
+
+    const centralSize = central.reduce((sum, c) => sum + c.length, 0);
+    const end = new Uint8Array(22);
+    const ev = new DataView(end.buffer);
+    ev.setUint32(0, END_OF_CENTRAL_DIR, true);
+    ev.setUint16(8, entries.length, true);
+    ev.setUint16(10, entries.length, true);
+    ev.setUint32(12, centralSize, true);
+    ev.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...central, end], { type: 'application/zip' });
+};
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/** Reads every file entry of a ZIP archive. Directories are skipped. */
+export const readZip = async (buffer: ArrayBuffer): Promise<ZipEntry[]> => {
+    const bytes = new Uint8Array(buffer);
+    const view = new DataView(buffer);
+    const decoder = new TextDecoder();
+
+    // The end record sits in the last 22 bytes plus an optional comment of up to 64 KB
+    let end = -1;
+    for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xFFFF); i--) {
+        if (view.getUint32(i, true) === END_OF_CENTRAL_DIR) { end = i; break; }
+    }
+    if (end < 0) throw new Error("Not a ZIP file.");
+
+    const count = view.getUint16(end + 10, true);
+    let pos = view.getUint32(end + 16, true);
+    const entries: ZipEntry[] = [];
+    for (let i = 0; i < count; i++) {
+        if (view.getUint32(pos, true) !== CENTRAL_HEADER) throw new Error("Corrupt ZIP central directory.");
+        const method = view.getUint16(pos + 10, true);
+        const compressedSize = view.getUint32(pos + 20, true);
+        const nameLength = view.getUint16(pos + 28, true);
+        const extraLength = view.getUint16(pos + 30, true);
+        const commentLength = view.getUint16(pos + 32, true);
+        const localOffset = view.getUint32(pos + 42, true);
+        const name = decoder.decode(bytes.subarray(pos + 46, pos + 46 + nameLength));
+        pos += 46 + nameLength + extraLength + commentLength;
+
+        if (name.endsWith('/')) continue;
+        // The local header's extra field can differ from the central one
+        const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+        if (method === 0) entries.push({ name, data: raw });
+        else if (method === 8) entries.push({ name, data: await inflateRaw(raw) });
+        else throw new Error(`Unsupported ZIP compression method ${method} for ${name}.`);
+    }
+    return entries;
+};
@@ -15,6 +15,9 @@ export interface Character {
   role: 'protagonist' | 'antagonist' | 'supporting';
   description: string; // The "Visual Signature"
   image?: string; // Base64 reference image (for UI and analysis)
+  // How the reference is used for scene images. Defaults to 'reference' when an image exists.
+  conditioning?: 'text' | 'reference';
+  voiceType?: VoiceConfig['voiceType']; // Voice for this character's dialogue lines
 }
 
 export interface StoryConfig {
@@ -30,6 +33,7 @@ export interface StoryConfig {
   characters: Character[]; // New List-based approach
   sceneCount: number;
   characterCount: number;
+  longForm?: boolean; // Chaptered generation: outline first, then scenes chapter by chapter
 }
 
 export interface ImageStyleConfig {
@@ -41,36 +45,166 @@ export interface ImageStyleConfig {
   clothingStyle: string;
 }
 
+export const NARRATOR = 'narrator';
+
+// A line of narration or dialogue. speaker is NARRATOR or a Character name.
+export interface NarrativeSegment {
+  speaker: string;
+  text: string;
+}
+
 export interface Scene {
+  id: string; // Stable across renumbering and reordering
   sceneNumber: number;
-  narrative: string;
+  narrative: string; // Full text of the scene (segments joined), used for display and subtitles
+  segments?: NarrativeSegment[];
   imagePrompt: string;
   motionPrompt: string;
   characterNames: string[]; // List of characters present in this scene
   // Generated Media
   audioData?: string; // Base64 WAV
-  imageUrl?: string;
+  imageUrl?: string; // The selected take's image
+  imageTakes?: ImageTake[]; // Every image made for the scene, rejected ones included
+  selectedTakeId?: string;
+  pinnedSeed?: number; // Overrides MediaSettings.seed for this scene
+  reframes?: Partial<Record<AspectRatio, SceneReframe>>; // The image adapted to other aspect ratios, one each
+  consistency?: ConsistencyCheck; // Last vision check of the image against the character descriptions
+  // Model that actually produced the media (may be a fallback)
+  audioModel?: string;
+  imageModel?: string;
+  // Text the media was generated from; differs from the current text once the scene is edited
+  audioSource?: string;
+  imageSource?: string;
   // Video URL removed as per request
 }
 
+// One generated or uploaded image of a scene. Selecting a take copies it into the scene's
+// imageUrl / imageModel / imageSource, which is what export and rendering read.
+export interface ImageTake {
+  id: string;
+  url: string;
+  model?: string; // Absent for uploads
+  seed?: number;
+  source?: string; // imageSourceOf the scene it was generated from
+  editOf?: string; // Take this one was edited from
+  instruction?: string; // The edit instruction, for edited takes
+  upscaled?: boolean; // Enlarged locally from the take in editOf
+  createdAt: number;
+}
+
+// A scene image adapted to an aspect ratio other than the project's (see services/reframe.ts)
+export interface SceneReframe {
+  url: string;
+  method: 'crop' | 'outpaint';
+  focus?: { x: number; y: number }; // Crop centre, as fractions of the source image
+  model?: string; // Model that outpainted it
+  takeId?: string; // Take it was derived from; a different selected take makes it outdated
+  createdAt: number;
+}
+
+export interface ConsistencyIssue {
+  kind: 'mismatch' | 'missing' | 'extra'; // Looks different / not in the image / unexpected person
+  character?: string; // Absent for extra people
+  detail: string; // e.g. "hair is blond, description says black"
+}
+
+export interface ConsistencyCheck {
+  takeId?: string; // Take that was checked; another selected take makes the result outdated
+  issues: ConsistencyIssue[];
+  model: string;
+  checkedAt: number;
+}
+
 export interface StoryOutput {
   title: string;
   summary: string;
   scenes: Scene[];
 }
 
+// Long-form generation plan. Scene counts per chapter are assigned by the app, not the model.
+export interface OutlineChapter {
+  act: number;
+  title: string;
+  synopsis: string;
+  sceneCount: number;
+}
+
+export interface StoryOutline {
+  title: string;
+  summary: string;
+  chapters: OutlineChapter[];
+}
+
+// Progress of a chaptered run, saved with the project so a failed run resumes at the next chapter
+export interface StoryDraft {
+  outline: StoryOutline;
+  scenes: Scene[]; // Scenes of the completed chapters
+  completedChapters: number;
+  runningSummary: string; // What has happened so far, carried into the next chapter's prompt
+}
+
 export type AspectRatio = '16:9' | '9:16' | '1:1' | '4:5' | '3:4' | '4:3';
+export type ImageResolution = '1K' | '2K' | '4K';
 
 // Allow both Pro (Primary) and Flash (Fallback)
 export type ImageModel = 'gemini-3-pro-image-preview' | 'gemini-2.5-flash-image';
 
 export interface MediaSettings {
   aspectRatio: AspectRatio;
-  imageModel: ImageModel;
+  imageModel: ImageModel; // Primary image model; the image chain in ModelSettings supplies fallbacks
+  resolution?: ImageResolution; // Requested output size (default 1K); only some models accept it
+  variations?: number; // Takes per generation (default 1)
+  seed?: number; // Default seed for scenes without their own pinnedSeed; take k uses seed + k. Unset: random seeds
+}
+
+export type ModelModality = 'text' | 'speech' | 'image' | 'vision';
+
+// Ordered fallback chain per modality: the first model is tried first
+export type ModelSettings = Record<ModelModality, string[]>;
+
+export const DEFAULT_MODELS: ModelSettings = {
+  text: ['gemini-3-flash-preview', 'gemini-2.5-flash'],
+  speech: ['gemini-2.5-flash-preview-tts'],
+  image: ['gemini-3-pro-image-preview', 'gemini-2.5-flash-image'],
+  vision: ['gemini-2.5-flash-image', 'gemini-3-flash-preview'],
+};
+
+export const IMAGE_MODELS: ImageModel[] = ['gemini-3-pro-image-preview', 'gemini-2.5-flash-image'];
+
+export type AudioFormat = 'wav' | 'mp3' | 'opus';
+
+// Audio download options. format/bitrate apply to every download; the rest to the full narration track.
+export interface AudioExportSettings {
+  format: AudioFormat;
+  bitrate: number; // kbps, ignored for WAV
+  gapSeconds: number; // Silence between scenes
+  fadeInSeconds: number; // Applied to the start of each scene
+  fadeOutSeconds: number; // Applied to the end of each scene
 }
 
+// Caption export and burn-in options. Line limits apply to SRT/VTT files as well as burned captions.
+export interface SubtitleSettings {
+  burnIn: boolean; // Draw captions onto the rendered video and exported stills
+  maxCharsPerLine: number;
+  maxLines: number;
+  fontSize: 'small' | 'medium' | 'large';
+  position: 'top' | 'middle' | 'bottom';
+  color: string;
+  background: 'none' | 'box' | 'outline';
+}
+
+// Media job queue: how many jobs run at once, and per-model request budgets (requests per minute, 0 = unlimited)
+export interface QueueSettings {
+  concurrency: number;
+  requestsPerMinute: Record<string, number>;
+}
+
+// Backend used for all generation calls. 'mock' runs fully offline.
+export type ProviderId = 'gemini' | 'mock';
+
 export interface Project {
   id: string;
+  schemaVersion?: number; // See services/projectSchema.ts; absent on files from before versioning
   title?: string; // For archive display
   lastSaved?: number;
   createdAt: number;
@@ -80,6 +214,13 @@ export interface Project {
   imageStyle: ImageStyleConfig;
   voiceConfig: VoiceConfig;
   apiKey?: string;
+  provider?: ProviderId;
+  models?: ModelSettings;
+  audioExport?: AudioExportSettings;
+  subtitles?: SubtitleSettings;
+  queue?: QueueSettings;
+  bypassCache?: boolean; // Skip cached media results; fresh results still refresh the cache
+  draft?: StoryDraft; // Unfinished chaptered run
 }
 
 export interface Template {
@@ -161,6 +302,7 @@ export const TRANSLATIONS = {
     archiveProject: 'حفظ في الأرشيف',
     openArchive: 'الأرشيف',
     loadProject: 'تحميل ملف',
+    downloadBundle: 'تنزيل حزمة المشروع (ZIP)',
     downloadMp3: 'MP3',
     generateImage: 'توليد',
     generateAllAudio: 'توليد كل الأصوات',
@@ -171,7 +313,58 @@ export const TRANSLATIONS = {
     apiKeyPlaceholder: 'أدخل مفتاح Gemini API...',
     aspectRatio: 'أبعاد الصورة',
     modelQuality: 'نموذج التوليد',
+    variations: 'عدد الصور لكل توليد',
+    seed: 'البذرة',
+    seedRandom: 'عشوائية',
+    pinSeed: 'تثبيت البذرة',
+    unpinSeed: 'إلغاء التثبيت',
+    seedDesc: 'بذرة افتراضية لكل المشاهد؛ تثبيت بذرة لقطة من المعرض يخص مشهدها فقط. تعيد نفس النتيجة للطلب نفسه في النماذج التي تدعمها.',
+    takes: 'اللقطات',
+    take: 'لقطة',
+    editImage: 'تعديل الصورة',
+    brushSize: 'حجم الفرشاة',
+    clearMask: 'مسح التحديد',
+    maskHint: 'ستتغير المنطقة المحددة فقط.',
+    noMaskHint: 'لوّن المنطقة المراد تعديلها، أو اترك الصورة دون تحديد لتعديلها كاملة.',
+    editInstructionPlaceholder: 'مثال: أزل المصباح، اجعل ليلى تبتسم',
+    applyEdit: 'تطبيق التعديل',
+    resolution: 'الدقة',
+    resolutionDesc: 'الدقة الأعلى مدعومة في نموذج Pro فقط؛ صور النماذج الأخرى يمكن تكبيرها محليًا.',
+    upscale: 'تكبير محلي',
+    upscaling: 'جاري التكبير...',
+    exportPreset: 'قالب التصدير',
+    presetProject: 'إعدادات المشروع',
+    reframe: 'إعادة التأطير',
+    reframeDesc: 'انقر على الصورة لاختيار نقطة التركيز. القص يحافظ على الصورة الأصلية، والتوسيع يرسم ما يقع خارجها بالنموذج.',
+    targetAspect: 'النسبة المطلوبة',
+    autoReframe: 'تلقائي',
+    autoReframeDesc: 'يحدد الشخصيات ثم يقص، أو يوسّع إذا كان القص سيقطعها.',
+    crop: 'قص',
+    outpaint: 'توسيع',
+    detectingSubjects: 'جاري تحديد الشخصيات...',
+    reframeOutdated: 'من لقطة سابقة',
+    projectAspect: 'نسبة المشروع',
+    scene: 'المشهد',
+    checkConsistency: 'فحص تطابق الشخصيات',
+    checkAllConsistency: 'فحص تطابق كل الصور',
+    consistent: 'الشخصيات مطابقة',
+    consistencyIssues: 'ملاحظات على الشخصيات',
+    consistencyOutdated: 'الفحص لصورة سابقة',
+    regenerateWithFixes: 'إعادة التوليد مع التصحيحات',
+    issue_mismatch: 'اختلاف',
+    issue_missing: 'غائب',
+    issue_extra: 'شخص زائد',
+    check: 'فحص',
     pro: 'Gemini 3.0 Pro (جودة عالية)',
+    flash: 'Gemini 2.5 Flash (سريع)',
+    fallbackChain: 'سلسلة البدائل',
+    modelChains: 'سلاسل النماذج',
+    modelChainsDesc: 'أسماء النماذج مفصولة بفواصل، بترتيب المحاولة.',
+    rerunSameModel: 'إعادة بنفس النموذج',
+    text: 'النص',
+    speech: 'الكلام',
+    image: 'الصور',
+    vision: 'الرؤية',
     back: 'رجوع',
     generate: 'تشغيل القصة',
     regenerate: 'إعادة',
@@ -201,6 +394,36 @@ export const TRANSLATIONS = {
     antagonist: 'الشرير / العقبة',
     supporting: 'شخصيات ثانوية',
     numScenes: 'عدد المشاهد',
+    longForm: 'قصة طويلة (فصول)',
+    longFormDesc: 'يكتب مخططاً للفصول أولاً ثم المشاهد فصلاً بفصل. يمكن استكمال التوليد إذا توقف.',
+    writingOutline: 'جاري كتابة مخطط الفصول...',
+    writingChapter: 'جاري كتابة الفصل',
+    act: 'الفصل الدرامي',
+    scenesLabel: 'مشاهد',
+    unfinishedStory: 'قصة غير مكتملة',
+    chaptersDone: 'فصول مكتملة',
+    resumeGeneration: 'استكمال التوليد',
+    streamingScenes: 'جاري كتابة المشاهد',
+    stopAndKeep: 'إيقاف والاحتفاظ بما كُتب',
+    stop: 'إيقاف',
+    jobQueue: 'قائمة التوليد',
+    jobRunning: 'قيد التنفيذ',
+    jobQueued: 'في الانتظار',
+    jobFailed: 'فشلت',
+    retry: 'إعادة المحاولة',
+    retryAllFailed: 'إعادة كل المهام الفاشلة',
+    dismiss: 'إخفاء',
+    jobsFailedNotice: 'مهام فشلت. أعد المحاولة من قائمة التوليد.',
+    queueSettings: 'قائمة التوليد',
+    concurrency: 'مهام متزامنة',
+    requestsPerMinute: 'طلبات في الدقيقة لكل نموذج (0 = بلا حد)',
+    mediaCache: 'ذاكرة الوسائط المؤقتة',
+    mediaCacheDesc: 'الطلبات المتطابقة (نفس الوصف والنموذج والصوت والنسبة والمراجع) تُستعاد محليًا دون تكلفة.',
+    cacheEntries: 'عناصر',
+    cacheHitRate: 'نسبة الاستعادة',
+    cacheVariation: 'النسخة',
+    clearCache: 'مسح الذاكرة المؤقتة',
+    bypassCache: 'تجاهل الذاكرة المؤقتة (توليد جديد دائمًا)',
     numCharacters: 'عدد الشخصيات',
     magicFill: 'تعبئة سحرية ✨',
     thinking: 'جاري التفكير...',
@@ -211,6 +434,84 @@ export const TRANSLATIONS = {
     characterName: 'الاسم',
     characterDesc: 'الوصف البصري (للصور)',
     autoGenCharacters: 'توليد الشخصيات تلقائياً',
+    conditioning: 'طريقة التوجيه',
+    conditioningText: 'وصف نصي فقط',
+    conditioningReference: 'صورة مرجعية',
+    characterVoice: 'صوت الشخصية',
+    narratorVoice: 'صوت الراوي',
+    narrator: 'الراوي',
+    fullNarration: 'السرد الكامل',
+    downloadFullNarration: 'تنزيل السرد الكامل',
+    sceneGap: 'صمت بين المشاهد',
+    fadeIn: 'تلاشي البداية',
+    fadeOut: 'تلاشي النهاية',
+    sceneTimings: 'توقيت المشاهد',
+    downloadTimings: 'تنزيل التوقيتات',
+    skippedScenes: 'مشاهد بدون صوت (تم تخطيها)',
+    downloadFormat: 'صيغة التنزيل',
+    bitrate: 'معدل البت',
+    encoding: 'جاري الترميز...',
+    renderVideo: 'تصدير فيديو',
+    renderingVideo: 'جاري تصدير الفيديو...',
+    downloadVideo: 'تنزيل الفيديو',
+    downloadStills: 'تنزيل الصور',
+    cancel: 'إلغاء',
+    keepTabVisible: 'يتم التصدير في الوقت الحقيقي. أبقِ هذا التبويب ظاهراً حتى ينتهي.',
+    subtitles: 'الترجمة النصية',
+    downloadSrt: 'تحميل SRT',
+    downloadVtt: 'تحميل VTT',
+    subtitleTimeline: 'توقيت الملف',
+    timelineVideo: 'الفيديو',
+    timelineNarration: 'ملف السرد الكامل',
+    timelineVideoDesc: 'يطابق الفيديو المُصدَّر: المشاهد متتالية، والمشاهد بلا صوت تظهر لبضع ثوانٍ.',
+    timelineNarrationDesc: 'يطابق ملف السرد الكامل: مع الفاصل بين المشاهد، ودون المشاهد التي بلا صوت.',
+    burnInCaptions: 'دمج الترجمة في الفيديو والصور',
+    charsPerLine: 'حروف في السطر',
+    linesPerCaption: 'أسطر في كل ترجمة',
+    captionSize: 'حجم الخط',
+    captionPosition: 'الموضع',
+    captionBackground: 'الخلفية',
+    captionColor: 'اللون',
+    small: 'صغير',
+    medium: 'متوسط',
+    large: 'كبير',
+    top: 'أعلى',
+    middle: 'وسط',
+    bottom: 'أسفل',
+    box: 'صندوق',
+    outline: 'حدود',
+    revisions: 'سجل النسخ',
+    noRevisions: 'لا توجد نسخ سابقة بعد. تُحفظ نسخة تلقائياً قبل إعادة توليد السيناريو أو التوليد الجماعي للوسائط.',
+    compare: 'مقارنة',
+    restore: 'استعادة',
+    discard: 'تجاهل',
+    restoreSession: 'استعادة الجلسة السابقة؟',
+    restoreSessionDesc: 'عُثر على عمل محفوظ تلقائياً من جلستك الأخيرة.',
+    narrativeText: 'النص',
+    audio: 'الصوت',
+    added: 'مضاف',
+    removed: 'محذوف',
+    movedFrom: 'نُقل من المشهد',
+    noChanges: 'لا فرق عن النسخة الحالية.',
+    reason_regenerateScript: 'قبل إعادة توليد السيناريو',
+    reason_generateAllAudio: 'قبل توليد كل الأصوات',
+    reason_generateAllImages: 'قبل توليد كل الصور',
+    reason_restore: 'قبل الاستعادة',
+    reason_regenerateStale: 'قبل إعادة توليد الوسائط القديمة',
+    edit: 'تعديل',
+    saveChanges: 'حفظ',
+    undoEdit: 'تراجع عن آخر تعديل',
+    audioStale: 'الصوت قديم',
+    imageStale: 'الصورة قديمة',
+    regenerateStale: 'إعادة توليد الوسائط القديمة',
+    regenerateScene: 'إعادة كتابة المشهد',
+    insertSceneBelow: 'إضافة مشهد بعده',
+    insertSceneFirst: 'إضافة مشهد في البداية',
+    deleteScene: 'حذف المشهد',
+    confirmDeleteScene: 'حذف هذا المشهد مع الصوت والصورة الخاصة به؟',
+    dragToReorder: 'اسحب لإعادة الترتيب',
+    writingScene: 'جاري كتابة المشهد...',
+    reason_deleteScene: 'قبل حذف مشهد',
     // Visual Styles
     visualStyle: 'النمط البصري',
     artStyle: 'النمط الفني',
@@ -267,6 +568,7 @@ export const TRANSLATIONS = {
     archiveProject: 'Save to Archive',
     openArchive: 'Archive',
     loadProject: 'Load File',
+    downloadBundle: 'Download Bundle (ZIP)',
     downloadMp3: 'MP3',
     generateImage: 'Generate',
     generateAllAudio: 'Generate All Audio',
@@ -277,7 +579,58 @@ export const TRANSLATIONS = {
     apiKeyPlaceholder: 'Enter your custom Gemini API Key...',
     aspectRatio: 'Aspect Ratio',
     modelQuality: 'Generation Model',
+    variations: 'Images per generation',
+    seed: 'Seed',
+    seedRandom: 'Random',
+    pinSeed: 'Pin seed',
+    unpinSeed: 'Unpin',
+    seedDesc: 'Default for every scene; pinning a take\'s seed in its gallery applies to that scene only. A seed reproduces the same result for the same request on models that support it.',
+    takes: 'Takes',
+    take: 'Take',
+    editImage: 'Edit image',
+    brushSize: 'Brush',
+    clearMask: 'Clear mask',
+    maskHint: 'Only the painted area will change.',
+    noMaskHint: 'Paint over the area to change, or leave it unpainted to edit the whole image.',
+    editInstructionPlaceholder: 'e.g. remove the lamp, make Layla smile',
+    applyEdit: 'Apply edit',
+    resolution: 'Resolution',
+    resolutionDesc: 'Sizes above 1K are generated by the Pro model only; images from other models can be upscaled locally.',
+    upscale: 'Upscale locally',
+    upscaling: 'Upscaling...',
+    exportPreset: 'Export preset',
+    presetProject: 'Project settings',
+    reframe: 'Reframe',
+    reframeDesc: 'Click the image to set the focal point. Crop keeps the original pixels; outpaint has the model paint what lies outside.',
+    targetAspect: 'Target aspect ratio',
+    autoReframe: 'Auto',
+    autoReframeDesc: 'Finds the characters, then crops, or outpaints if a crop would cut them off.',
+    crop: 'Crop',
+    outpaint: 'Outpaint',
+    detectingSubjects: 'Finding characters...',
+    reframeOutdated: 'from an earlier take',
+    projectAspect: 'project ratio',
+    scene: 'Scene',
+    checkConsistency: 'Check character consistency',
+    checkAllConsistency: 'Check all images',
+    consistent: 'Characters match',
+    consistencyIssues: 'Character issues',
+    consistencyOutdated: 'checked an earlier take',
+    regenerateWithFixes: 'Regenerate with fixes',
+    issue_mismatch: 'Mismatch',
+    issue_missing: 'Missing',
+    issue_extra: 'Extra person',
+    check: 'Check',
     pro: 'Gemini 3.0 Pro (High Quality)',
+    flash: 'Gemini 2.5 Flash (Fast)',
+    fallbackChain: 'Fallback Chain',
+    modelChains: 'Model Chains',
+    modelChainsDesc: 'Comma-separated model names, in the order they are tried.',
+    rerunSameModel: 'Re-run with same model',
+    text: 'Text',
+    speech: 'Speech',
+    image: 'Image',
+    vision: 'Vision',
     back: 'Back',
     generate: 'Generate Story',
     regenerate: 'Regenerate',
@@ -307,6 +660,36 @@ export const TRANSLATIONS = {
     antagonist: 'Antagonist',
     supporting: 'Supporting Cast',
     numScenes: 'Number of Scenes',
+    longForm: 'Long-form (chaptered)',
+    longFormDesc: 'Writes a chapter outline first, then the scenes chapter by chapter. A failed run can be resumed.',
+    writingOutline: 'Writing the chapter outline...',
+    writingChapter: 'Writing chapter',
+    act: 'Act',
+    scenesLabel: 'scenes',
+    unfinishedStory: 'Unfinished story',
+    chaptersDone: 'chapters done',
+    resumeGeneration: 'Resume generation',
+    streamingScenes: 'Writing scenes',
+    stopAndKeep: 'Stop and keep what is written',
+    stop: 'Stop',
+    jobQueue: 'Generation queue',
+    jobRunning: 'running',
+    jobQueued: 'queued',
+    jobFailed: 'failed',
+    retry: 'Retry',
+    retryAllFailed: 'Retry all failed',
+    dismiss: 'Dismiss',
+    jobsFailedNotice: 'jobs failed. Retry them from the generation queue.',
+    queueSettings: 'Generation queue',
+    concurrency: 'Jobs at once',
+    requestsPerMinute: 'Requests per minute per model (0 = unlimited)',
+    mediaCache: 'Media cache',
+    mediaCacheDesc: 'Identical requests (same prompt, model, voice, aspect ratio and references) are served locally at no cost.',
+    cacheEntries: 'entries',
+    cacheHitRate: 'hit rate',
+    cacheVariation: 'variation',
+    clearCache: 'Clear cache',
+    bypassCache: 'Bypass cache (always generate fresh)',
     numCharacters: 'Number of Characters',
     magicFill: 'Magic Fill ✨',
     thinking: 'Thinking...',
@@ -317,6 +700,84 @@ export const TRANSLATIONS = {
     characterName: 'Name',
     characterDesc: 'Visual Description (for consistency)',
     autoGenCharacters: 'Auto-Generate Characters',
+    conditioning: 'Conditioning',
+    conditioningText: 'Text Only',
+    conditioningReference: 'Reference Image',
+    characterVoice: 'Character Voice',
+    narratorVoice: 'Narrator voice',
+    narrator: 'Narrator',
+    fullNarration: 'Full Narration',
+    downloadFullNarration: 'Download full narration',
+    sceneGap: 'Silence between scenes',
+    fadeIn: 'Fade in',
+    fadeOut: 'Fade out',
+    sceneTimings: 'Scene timings',
+    downloadTimings: 'Download timings',
+    skippedScenes: 'Scenes without audio (skipped)',
+    downloadFormat: 'Download Format',
+    bitrate: 'Bitrate',
+    encoding: 'Encoding...',
+    renderVideo: 'Render Video',
+    renderingVideo: 'Rendering video...',
+    downloadVideo: 'Download Video',
+    downloadStills: 'Download Images',
+    cancel: 'Cancel',
+    keepTabVisible: 'Rendering runs in real time. Keep this tab visible until it finishes.',
+    subtitles: 'Subtitles',
+    downloadSrt: 'Download SRT',
+    downloadVtt: 'Download VTT',
+    subtitleTimeline: 'Timing matches',
+    timelineVideo: 'Video',
+    timelineNarration: 'Full narration',
+    timelineVideoDesc: 'Matches the rendered video: scenes back to back, scenes without audio held for a few seconds.',
+    timelineNarrationDesc: 'Matches the full-narration export: with its gap between scenes, skipping scenes without audio.',
+    burnInCaptions: 'Burn captions into video and images',
+    charsPerLine: 'Characters per line',
+    linesPerCaption: 'Lines per caption',
+    captionSize: 'Font size',
+    captionPosition: 'Position',
+    captionBackground: 'Background',
+    captionColor: 'Color',
+    small: 'Small',
+    medium: 'Medium',
+    large: 'Large',
+    top: 'Top',
+    middle: 'Middle',
+    bottom: 'Bottom',
+    box: 'Box',
+    outline: 'Outline',
+    revisions: 'Revision History',
+    noRevisions: 'No revisions yet. A snapshot is taken automatically before script regeneration and bulk media generation.',
+    compare: 'Compare',
+    restore: 'Restore',
+    discard: 'Discard',
+    restoreSession: 'Restore last session?',
+    restoreSessionDesc: 'Autosaved work from your last session was found.',
+    narrativeText: 'Narrative',
+    audio: 'Audio',
+    added: 'Added',
+    removed: 'Removed',
+    movedFrom: 'Moved from scene',
+    noChanges: 'No differences from the current version.',
+    reason_regenerateScript: 'Before script regeneration',
+    reason_generateAllAudio: 'Before generating all audio',
+    reason_generateAllImages: 'Before generating all images',
+    reason_restore: 'Before restore',
+    reason_regenerateStale: 'Before regenerating outdated media',
+    edit: 'Edit',
+    saveChanges: 'Save',
+    undoEdit: 'Undo last edit',
+    audioStale: 'Audio outdated',
+    imageStale: 'Image outdated',
+    regenerateStale: 'Regenerate outdated media',
+    regenerateScene: 'Rewrite scene',
+    insertSceneBelow: 'Add scene below',
+    insertSceneFirst: 'Add scene at the start',
+    deleteScene: 'Delete scene',
+    confirmDeleteScene: 'Delete this scene along with its audio and image?',
+    dragToReorder: 'Drag to reorder',
+    writingScene: 'Writing scene...',
+    reason_deleteScene: 'Before deleting a scene',
     // Visual Styles
     visualStyle: 'Visual Style',
     artStyle: 'Art Style',